@@ -5,8 +5,11 @@ import chalk from "chalk";
 import ora from "ora";
 import { deployGraphQLService } from "./commands/deploy";
 import { destroyGraphQLService } from "./commands/destroy";
-import { validateSchema } from "./utils/schema-validator";
+import { startDevServer } from "./commands/dev";
+import { getSchemaWarnings, validateSchema } from "./utils/schema-validator";
 import { loadSchema } from "./utils/schema-loader";
+import { parseAuthConfig, resolveAuthConfig } from "./utils/auth-config";
+import { parseTableFormat } from "./infrastructure/glue-schema";
 
 const program = new Command();
 
@@ -24,6 +27,32 @@ program
   .requiredOption("-f, --file <file>", "GraphQL schema file path")
   .option("-r, --region <region>", "AWS region", "us-east-1")
   .option("--profile <profile>", "AWS profile to use")
+  .option(
+    "--auth <mode>",
+    "Default auth mode (api-key, cognito, oidc, iam, lambda)",
+    "api-key"
+  )
+  .option(
+    "--additional-auth <modes>",
+    "Comma-separated additional auth modes, e.g. cognito,iam"
+  )
+  .option("--user-pool-id <id>", "Cognito user pool ID for cognito auth")
+  .option("--oidc-issuer <url>", "OIDC issuer URL for oidc auth")
+  .option("--oidc-client-id <id>", "OIDC client ID for oidc auth")
+  .option(
+    "--lambda-authorizer-arn <arn>",
+    "Lambda authorizer function ARN for lambda auth"
+  )
+  .option(
+    "--domain-events",
+    "Publish entity and join relation changes to a project EventBridge bus",
+    false
+  )
+  .option(
+    "--table-format <format>",
+    "Analytics table format (hive, iceberg)",
+    "hive"
+  )
   .action(async (options) => {
     const spinner = ora("Starting deployment...").start();
 
@@ -37,9 +66,12 @@ program
         throw new Error("Schema file is required");
       }
 
+      const authConfig = resolveAuthConfig(options);
+      const tableFormat = parseTableFormat(options.tableFormat);
+
       spinner.text = "Loading and validating schema...";
       const schema = await loadSchema(options.file);
-      await validateSchema(schema);
+      await validateSchema(schema, { authConfig, tableFormat });
 
       spinner.text = "Deploying GraphQL service...";
       await deployGraphQLService({
@@ -48,6 +80,9 @@ program
         region: options.region,
         profile: options.profile,
         schema,
+        authConfig,
+        domainEvents: options.domainEvents,
+        tableFormat,
       });
 
       spinner.succeed(chalk.green("✅ GraphQL service deployed successfully!"));
@@ -64,13 +99,33 @@ program
   .command("validate")
   .description("Validate GraphQL schema")
   .requiredOption("-f, --file <file>", "GraphQL schema file path")
+  .option(
+    "--auth <mode>",
+    "Default auth mode to validate against (api-key, cognito, oidc, iam, lambda)",
+    "api-key"
+  )
+  .option(
+    "--additional-auth <modes>",
+    "Comma-separated additional auth modes to validate against"
+  )
+  .option(
+    "--table-format <format>",
+    "Analytics table format to validate queries against (hive, iceberg)",
+    "hive"
+  )
   .action(async (options) => {
     const spinner = ora("Validating schema...").start();
 
     try {
       const schema = await loadSchema(options.file);
-      await validateSchema(schema);
+      await validateSchema(schema, {
+        authConfig: parseAuthConfig(options),
+        tableFormat: parseTableFormat(options.tableFormat),
+      });
       spinner.succeed(chalk.green("✅ Schema is valid!"));
+      for (const warning of getSchemaWarnings(schema)) {
+        console.log(chalk.yellow(`⚠️  ${warning}`));
+      }
     } catch (error) {
       spinner.fail(chalk.red("❌ Schema validation failed"));
       console.error(
@@ -80,6 +135,44 @@ program
     }
   });
 
+program
+  .command("dev")
+  .description("Serve the GraphQL API locally against offline stand-ins")
+  .requiredOption("-f, --file <file>", "GraphQL schema file path")
+  .option("-n, --name <name>", "Project name", "local")
+  .option("-p, --port <port>", "Port for the local GraphQL endpoint", "4000")
+  .option(
+    "--data-dir <dir>",
+    "Directory for local table data and Parquet files",
+    ".oc-graphql-dev"
+  )
+  .option("--no-watch", "Do not reload when the schema file changes")
+  .action(async (options) => {
+    const spinner = ora("Starting local GraphQL server...").start();
+
+    try {
+      const port = parseInt(options.port, 10);
+      if (isNaN(port)) {
+        throw new Error(`Invalid port: ${options.port}`);
+      }
+
+      spinner.stop();
+      await startDevServer({
+        projectName: options.name,
+        schemaFile: options.file,
+        port,
+        dataDir: options.dataDir,
+        watch: options.watch,
+      });
+    } catch (error) {
+      spinner.fail(chalk.red("❌ Local server failed to start"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : "Unknown error")
+      );
+      process.exit(1);
+    }
+  });
+
 program
   .command("destroy")
   .description("Destroy GraphQL service from AWS")
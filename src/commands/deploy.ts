@@ -2,6 +2,12 @@ import { App } from "aws-cdk-lib";
 import { OcGraphQLStack } from "../infrastructure/oc-graphql-stack";
 import { SchemaParser } from "../parsers/schema-parser";
 import { CodeGenerator } from "../generators/code-generator";
+import { TableFormat } from "../infrastructure/glue-schema";
+import {
+  AuthConfig,
+  DEFAULT_AUTH_CONFIG,
+  withAuthMode,
+} from "../utils/auth-config";
 import * as fs from "fs-extra";
 import * as path from "path";
 import { execSync } from "child_process";
@@ -12,6 +18,9 @@ export interface DeployOptions {
   region: string;
   profile?: string;
   schema: string;
+  authConfig?: AuthConfig;
+  domainEvents?: boolean;
+  tableFormat?: TableFormat;
 }
 
 export async function deployGraphQLService(
@@ -23,8 +32,25 @@ export async function deployGraphQLService(
   const parser = new SchemaParser(schema);
   const schemaMetadata = parser.parse();
 
+  // The execution tracker publishes task completions with IAM credentials.
+  // The API accepts IAM, but the schema only grants it on notifyTaskCompleted.
+  const hasTasks =
+    schemaMetadata.queries.some((q) => q.isTask) ||
+    schemaMetadata.mutations.some((m) =>
+      (m.sqlQuery?.query.trim().toUpperCase() || "").startsWith("DELETE")
+    );
+  const schemaAuthConfig = options.authConfig || DEFAULT_AUTH_CONFIG;
+  const authConfig = hasTasks
+    ? withAuthMode(schemaAuthConfig, "AWS_IAM")
+    : schemaAuthConfig;
+
   // Generate Lambda functions for resolvers
-  const codeGenerator = new CodeGenerator(schemaMetadata, projectName);
+  const codeGenerator = new CodeGenerator(
+    schemaMetadata,
+    projectName,
+    schemaAuthConfig,
+    { domainEvents: options.domainEvents, tableFormat: options.tableFormat }
+  );
   const generatedCode = await codeGenerator.generateAll();
 
   // Create temporary directory for generated code
@@ -56,6 +82,11 @@ export async function deployGraphQLService(
         "@aws-sdk/client-athena": "^3.0.0",
         "@aws-sdk/client-s3": "^3.0.0",
         "@aws-sdk/client-glue": "^3.0.0",
+        "@aws-sdk/client-eventbridge": "^3.0.0",
+        "@aws-sdk/client-lambda": "^3.0.0",
+        "@aws-sdk/client-sqs": "^3.0.0",
+        "@aws-sdk/client-secrets-manager": "^3.0.0",
+        "@smithy/signature-v4": "^5.0.0",
         uuid: "^9.0.0",
       },
     };
@@ -85,6 +116,9 @@ export async function deployGraphQLService(
       projectName,
       schemaMetadata,
       generatedCodePath: tempDir,
+      authConfig,
+      domainEvents: options.domainEvents,
+      tableFormat: options.tableFormat,
       env: {
         region,
         account: process.env.CDK_DEFAULT_ACCOUNT,
@@ -131,11 +165,21 @@ export async function deployGraphQLService(
       console.log(`   • DynamoDB Table: ${projectName}`);
       console.log(`   • S3 Data Bucket: ${projectName}-{account-id}`);
       console.log(`   • Athena Database: ${projectName}_db`);
+      if (options.tableFormat === "iceberg") {
+        console.log("   • Table Format: Apache Iceberg");
+      }
+      if (options.domainEvents) {
+        console.log(`   • EventBridge Bus: OCG-${projectName}-events`);
+      }
       console.log("\n🔗 Next steps:");
       console.log(
         "   1. Check AWS AppSync Console for your GraphQL API endpoint"
       );
-      console.log("   2. Use the API key from AppSync for authentication");
+      console.log(
+        authConfig.defaultMode === "API_KEY"
+          ? "   2. Use the API key from AppSync for authentication"
+          : `   2. Authenticate requests with ${authConfig.defaultMode} (default auth mode)`
+      );
       console.log("   3. Test your API using the GraphQL playground");
     } catch (error) {
       console.error("\n❌ Deployment failed!");
@@ -0,0 +1,314 @@
+import chalk from "chalk";
+import * as fs from "fs-extra";
+import * as http from "http";
+import * as path from "path";
+import {
+  GraphQLFieldResolver,
+  GraphQLSchema,
+  buildSchema,
+  defaultFieldResolver,
+  graphql,
+} from "graphql";
+import { SchemaMetadata, SchemaParser } from "../parsers/schema-parser";
+import { CodeGenerator } from "../generators/code-generator";
+import { LocalRuntime } from "../local/local-runtime";
+import { loadSchema } from "../utils/schema-loader";
+import { validateSchema } from "../utils/schema-validator";
+
+export interface DevOptions {
+  projectName: string;
+  schemaFile: string;
+  port: number;
+  dataDir: string;
+  watch: boolean;
+}
+
+/**
+ * AppSync built-in scalars and directives, which the processed schema relies on
+ */
+const APPSYNC_DEFINITIONS = `
+scalar AWSDate
+scalar AWSTime
+scalar AWSDateTime
+scalar AWSTimestamp
+scalar AWSEmail
+scalar AWSJSON
+scalar AWSURL
+scalar AWSPhone
+scalar AWSIPAddress
+directive @aws_api_key on FIELD_DEFINITION | OBJECT
+directive @aws_iam on FIELD_DEFINITION | OBJECT
+directive @aws_oidc on FIELD_DEFINITION | OBJECT
+directive @aws_lambda on FIELD_DEFINITION | OBJECT
+directive @aws_cognito_user_pools(cognito_groups: [String]) on FIELD_DEFINITION | OBJECT
+directive @aws_auth(cognito_groups: [String]) on FIELD_DEFINITION
+directive @aws_subscribe(mutations: [String]) on FIELD_DEFINITION
+`;
+
+interface DevBuild {
+  schema: GraphQLSchema;
+  resolvers: Record<string, string>;
+}
+
+/**
+ * Map "<Query|Mutation>.<field>" to the generated Lambda file that resolves it
+ * Mirrors the resolvers created in OcGraphQLStack.createAppSyncResolvers
+ */
+function buildResolverMap(
+  schemaMetadata: SchemaMetadata,
+  projectName: string
+): Record<string, string> {
+  const resolvers: Record<string, string> = {};
+  const capitalizeFirst = (str: string) =>
+    str.charAt(0).toUpperCase() + str.slice(1);
+
+  // CRUD resolvers (skip @task_response types)
+  for (const type of schemaMetadata.types) {
+    if (type.isPrimitive || type.isTaskResponse) {
+      continue;
+    }
+    const typeName = type.name.toLowerCase();
+    for (const operation of ["read", "list"]) {
+      resolvers[`Query.${operation}${type.name}`] =
+        `ocg-${projectName}-${operation}-${typeName}.js`;
+    }
+    for (const operation of ["create", "update", "delete"]) {
+      resolvers[`Mutation.${operation}${type.name}`] =
+        `ocg-${projectName}-${operation}-${typeName}.js`;
+    }
+  }
+
+  // DELETE mutations become deletion tasks, other mutations run directly
+  for (const mutation of schemaMetadata.mutations) {
+    if (!mutation.sqlQuery) {
+      continue;
+    }
+    const query = mutation.sqlQuery.query.trim().toUpperCase();
+    if (query.startsWith("DELETE")) {
+      const capitalizedName = capitalizeFirst(mutation.name);
+      resolvers[`Mutation.triggerTask${capitalizedName}`] =
+        `ocg-${projectName}-mutation-triggerTask${capitalizedName}.js`;
+      resolvers[`Query.taskResult${capitalizedName}`] =
+        `ocg-${projectName}-query-taskResult${capitalizedName}.js`;
+    } else {
+      resolvers[`Mutation.${mutation.name}`] =
+        `ocg-${projectName}-mutation-${mutation.name}.js`;
+    }
+  }
+
+  // Query fields are automatically tasks
+  for (const query of schemaMetadata.queries) {
+    if (query.isTask && query.sqlQuery) {
+      const capitalizedName = capitalizeFirst(query.name);
+      resolvers[`Mutation.triggerTask${capitalizedName}`] =
+        `ocg-${projectName}-mutation-triggerTask${capitalizedName}.js`;
+      resolvers[`Query.taskResult${capitalizedName}`] =
+        `ocg-${projectName}-query-taskResult${capitalizedName}.js`;
+      if (query.sqlQuery.mode === "SYNC") {
+        resolvers[`Query.${query.name}`] =
+          `ocg-${projectName}-query-${query.name}.js`;
+      }
+    }
+  }
+
+  // Task listing and cancellation exist whenever any task does
+  if (
+    Object.keys(resolvers).some((field) => field.startsWith("Query.taskResult"))
+  ) {
+    resolvers["Query.listTasks"] = `ocg-${projectName}-query-listTasks.js`;
+    resolvers["Mutation.cancelTask"] =
+      `ocg-${projectName}-mutation-cancelTask.js`;
+  }
+
+  return resolvers;
+}
+
+/**
+ * Caller identity for local requests, sent as JSON in the x-oc-graphql-identity
+ * header, e.g. {"sub":"user-1","username":"alice","groups":["admin"]}
+ */
+function getRequestIdentity(request: http.IncomingMessage): unknown {
+  const header = request.headers["x-oc-graphql-identity"];
+  if (typeof header !== "string" || header.length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(header);
+  } catch (error) {
+    throw new Error("Invalid x-oc-graphql-identity header: expected JSON");
+  }
+}
+
+function readRequestBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  statusCode: number,
+  payload: unknown
+): void {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+export async function startDevServer(options: DevOptions): Promise<void> {
+  const { projectName, schemaFile, port, watch } = options;
+  const dataDir = path.resolve(options.dataDir);
+  await fs.ensureDir(dataDir);
+
+  let runtime: LocalRuntime | undefined;
+  let current: DevBuild | undefined;
+
+  // Parse, generate and load everything needed to serve the schema
+  const build = async (): Promise<DevBuild> => {
+    const schema = await loadSchema(schemaFile);
+    await validateSchema(schema);
+
+    const parser = new SchemaParser(schema);
+    const schemaMetadata = parser.parse();
+
+    const codeGenerator = new CodeGenerator(schemaMetadata, projectName);
+    const generatedCode = await codeGenerator.generateAll();
+
+    await fs.writeFile(
+      path.join(dataDir, "processed-schema.graphql"),
+      generatedCode.processedSchema
+    );
+
+    if (!runtime) {
+      runtime = await LocalRuntime.create({
+        projectName,
+        dataDir,
+        schemaMetadata,
+      });
+    }
+    runtime.loadFunctions(generatedCode.lambdaFunctions, schemaMetadata);
+
+    return {
+      schema: buildSchema(APPSYNC_DEFINITIONS + generatedCode.processedSchema),
+      resolvers: buildResolverMap(schemaMetadata, projectName),
+    };
+  };
+
+  current = await build();
+
+  const fieldResolver: GraphQLFieldResolver<unknown, http.IncomingMessage> = (
+    source,
+    args,
+    request,
+    info
+  ) => {
+    const fileName =
+      current?.resolvers[`${info.parentType.name}.${info.fieldName}`];
+    if (!fileName || !runtime?.hasFunction(fileName)) {
+      return defaultFieldResolver(source, args, request, info);
+    }
+
+    // AppSync Lambda resolver event
+    return runtime.invoke(fileName, {
+      arguments: args,
+      identity: getRequestIdentity(request),
+      source: null,
+      request: { headers: request.headers },
+      info: {
+        fieldName: info.fieldName,
+        parentTypeName: info.parentType.name,
+        variables: info.variableValues,
+      },
+      prev: null,
+      stash: {},
+    });
+  };
+
+  const server = http.createServer(async (request, response) => {
+    try {
+      if (request.method === "GET") {
+        response.writeHead(200, { "Content-Type": "text/plain" });
+        response.end(
+          await fs.readFile(
+            path.join(dataDir, "processed-schema.graphql"),
+            "utf8"
+          )
+        );
+        return;
+      }
+
+      if (request.method !== "POST") {
+        sendJson(response, 405, {
+          errors: [{ message: "Method not allowed" }],
+        });
+        return;
+      }
+
+      const body = JSON.parse((await readRequestBody(request)) || "{}");
+      const result = await graphql({
+        schema: current!.schema,
+        source: body.query || "",
+        variableValues: body.variables,
+        operationName: body.operationName,
+        contextValue: request,
+        fieldResolver,
+      });
+      sendJson(response, 200, result);
+    } catch (error) {
+      sendJson(response, 400, {
+        errors: [
+          { message: error instanceof Error ? error.message : "Unknown error" },
+        ],
+      });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+
+  console.log(
+    chalk.green(
+      `\n🚀 Local GraphQL API running at http://localhost:${port}/graphql`
+    )
+  );
+  console.log(chalk.blue(`📁 Local data directory: ${dataDir}`));
+  console.log(
+    chalk.gray(
+      "   GET returns the processed schema, POST executes GraphQL requests"
+    )
+  );
+
+  if (watch) {
+    let reloadTimer: NodeJS.Timeout | undefined;
+    fs.watch(path.resolve(schemaFile), () => {
+      if (reloadTimer) {
+        clearTimeout(reloadTimer);
+      }
+      reloadTimer = setTimeout(async () => {
+        try {
+          current = await build();
+          console.log(chalk.green("🔄 Schema reloaded"));
+        } catch (error) {
+          // Keep serving the previous schema until the file is fixed
+          console.error(
+            chalk.red(
+              `❌ Schema reload failed: ${error instanceof Error ? error.message : "Unknown error"}`
+            )
+          );
+        }
+      }, 200);
+    });
+    console.log(chalk.gray(`👀 Watching ${schemaFile} for changes`));
+  }
+
+  // Flush the local table to disk on exit
+  const shutdown = async () => {
+    server.close();
+    await runtime?.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
@@ -0,0 +1,66 @@
+import { SchemaParser } from "../parsers/schema-parser";
+import { parseAuthConfig } from "../utils/auth-config";
+import { CodeGenerator } from "./code-generator";
+
+const SCHEMA = `
+type Product {
+  id: ID!
+  price: Float!
+}
+
+type ProductCount @task_response {
+  total: Int!
+}
+
+type Query {
+  productCount(minPrice: Float!): ProductCount
+    @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE price >= $args.minPrice")
+}
+`;
+
+// First line of a type definition in the processed schema
+async function getTypeLines(
+  authOptions: Parameters<typeof parseAuthConfig>[0]
+): Promise<Record<string, string>> {
+  const { processedSchema } = await new CodeGenerator(
+    new SchemaParser(SCHEMA).parse(),
+    "shop",
+    parseAuthConfig(authOptions)
+  ).generateAll();
+  return Object.fromEntries(
+    (processedSchema.match(/^type \w+.*\{$/gm) || []).map((line) => [
+      line.split(" ")[1],
+      line,
+    ])
+  );
+}
+
+describe("CodeGenerator auth directives", () => {
+  it("grants IAM only on task completions with a single auth mode", async () => {
+    const types = await getTypeLines({});
+    expect(types.Query).toBe("type Query {");
+    expect(types.Mutation).toBe("type Mutation {");
+    expect(types.Product).toBe("type Product {");
+    expect(types.TaskCompletion).toBe(
+      "type TaskCompletion @aws_api_key @aws_iam {"
+    );
+  });
+
+  it("keeps IAM off the API with additional auth modes", async () => {
+    const types = await getTypeLines({ additionalAuth: "cognito" });
+    expect(types.Query).toBe(
+      "type Query @aws_api_key @aws_cognito_user_pools {"
+    );
+    expect(types.Mutation).toBe(
+      "type Mutation @aws_api_key @aws_cognito_user_pools {"
+    );
+    expect(types.TaskCompletion).toBe(
+      "type TaskCompletion @aws_api_key @aws_cognito_user_pools @aws_iam {"
+    );
+  });
+
+  it("annotates every type when IAM is configured", async () => {
+    const types = await getTypeLines({ additionalAuth: "iam" });
+    expect(types.Query).toBe("type Query @aws_api_key @aws_iam {");
+  });
+});
@@ -1,18 +1,48 @@
+import { parseValue, valueFromASTUntyped } from "graphql";
 import {
   SchemaMetadata,
   TypeMetadata,
   FieldMetadata,
+  ArgumentMetadata,
+  AuthRule,
 } from "../parsers/schema-parser";
+import {
+  AuthConfig,
+  DEFAULT_AUTH_CONFIG,
+  getAuthDirectives,
+  withAuthMode,
+} from "../utils/auth-config";
+import { compileSqlTemplate, getSqlTemplateParams } from "./sql-template";
+import {
+  TableFormat,
+  getEntityTableColumns,
+  getJoinTableColumns,
+  getPartitionLayout,
+  getTablePartitionLayouts,
+} from "../infrastructure/glue-schema";
+import { addPartitionPredicates } from "./partition-pruning";
 
 export interface GeneratedCode {
   lambdaFunctions: Record<string, string>;
   processedSchema: string;
 }
 
+/**
+ * Optional features that add generated functions
+ */
+export interface CodeGeneratorOptions {
+  // Publish entity and join relation changes to the project's EventBridge bus
+  domainEvents?: boolean;
+  // Format of the analytics tables the stream processor writes (default hive)
+  tableFormat?: TableFormat;
+}
+
 export class CodeGenerator {
   constructor(
     private schemaMetadata: SchemaMetadata,
-    private projectName: string
+    private projectName: string,
+    private authConfig: AuthConfig = DEFAULT_AUTH_CONFIG,
+    private options: CodeGeneratorOptions = {}
   ) {}
 
   async generateAll(): Promise<GeneratedCode> {
@@ -27,6 +57,9 @@ export class CodeGenerator {
         lambdaFunctions[
           `ocg-${this.projectName}-read-${type.name.toLowerCase()}.js`
         ] = this.generateReadFunction(type);
+        lambdaFunctions[
+          `ocg-${this.projectName}-list-${type.name.toLowerCase()}.js`
+        ] = this.generateListFunction(type);
         lambdaFunctions[
           `ocg-${this.projectName}-update-${type.name.toLowerCase()}.js`
         ] = this.generateUpdateFunction(type);
@@ -61,20 +94,41 @@ export class CodeGenerator {
       }
     }
 
-    // Generate DynamoDB stream processor (Python with Parquet support)
-    lambdaFunctions[`ocg-${this.projectName}-stream-processor.py`] =
-      this.generateStreamProcessor();
+    const isIceberg = this.options.tableFormat === "iceberg";
+
+    // Generate DynamoDB stream processor (Python with Parquet support, or
+    // Athena MERGEs into Iceberg tables)
+    lambdaFunctions[`ocg-${this.projectName}-stream-processor.py`] = isIceberg
+      ? this.generateIcebergStreamProcessor()
+      : this.generateStreamProcessor();
+
+    if (isIceberg) {
+      // Generate scheduled OPTIMIZE / VACUUM of the Iceberg tables
+      lambdaFunctions[`ocg-${this.projectName}-iceberg-optimizer.js`] =
+        this.generateIcebergOptimizer();
+    } else {
+      // Generate scheduled Parquet compactor for the stream processor's data files
+      lambdaFunctions[`ocg-${this.projectName}-parquet-compactor.py`] =
+        this.generateParquetCompactor();
+    }
+
+    // Generate domain event publisher (second DynamoDB stream consumer)
+    if (this.options.domainEvents) {
+      lambdaFunctions[`ocg-${this.projectName}-domain-event-publisher.js`] =
+        this.generateDomainEventPublisher();
+    }
 
     // Generate cascade deletion queue listener Lambda
     lambdaFunctions[`ocg-${this.projectName}-cascade-deletion-listener.js`] =
       this.generateCascadeDeletionListener();
 
     // Generate deletion queue listener Lambda (for DELETE SQL operations)
+    // Iceberg deletion tasks run as Athena DELETE statements instead
     const hasDeleteMutations = this.schemaMetadata.mutations.some((m) => {
       const query = m.sqlQuery?.query.trim().toUpperCase() || "";
       return query.startsWith("DELETE");
     });
-    if (hasDeleteMutations) {
+    if (hasDeleteMutations && !isIceberg) {
       lambdaFunctions[`ocg-${this.projectName}-deletion-listener.js`] =
         this.generateDeletionListener();
     }
@@ -91,9 +145,29 @@ export class CodeGenerator {
         lambdaFunctions[
           `ocg-${this.projectName}-query-taskResult${this.capitalizeFirst(query.name)}.js`
         ] = this.generateTaskResultQuery(query);
+
+        // SYNC queries also get a direct Query field
+        if (query.sqlQuery.mode === "SYNC") {
+          lambdaFunctions[`ocg-${this.projectName}-query-${query.name}.js`] =
+            this.generateSyncQueryFunction(query);
+        }
       }
     }
 
+    // Generate task listing and cancellation functions
+    if (this.hasTasks()) {
+      lambdaFunctions[`ocg-${this.projectName}-query-listTasks.js`] =
+        this.generateListTasksQuery();
+      lambdaFunctions[`ocg-${this.projectName}-mutation-cancelTask.js`] =
+        this.generateCancelTaskMutation();
+    }
+
+    // Generate webhook sender for triggerTask*(callbackUrl: ...)
+    if (this.hasTasks()) {
+      lambdaFunctions[`ocg-${this.projectName}-webhook-sender.js`] =
+        this.generateWebhookSender();
+    }
+
     // Generate EventBridge Lambda for tracking Athena query executions
     lambdaFunctions[`ocg-${this.projectName}-athena-execution-tracker.js`] =
       this.generateAthenaExecutionTracker();
@@ -117,19 +191,34 @@ const { v4: uuidv4 } = require('uuid');
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
-
+${this.generateTypeAuthHelpers(type)}
 exports.handler = async (event) => {
   try {
     const input = event.arguments.input;
     const id = uuidv4();
     const now = new Date().toISOString();
-    
+    ${
+      type.authRules
+        ? `
+    // Owners may create their own items, groups/private rules may create any
+    const caller = getCallerIdentity(event);
+    if (!hasFullAccess(caller) && !(OWNER_FIELD && caller && caller.sub)) {
+      throw new Error('Unauthorized');
+    }
+    `
+        : ""
+    }
     const item = {
       PK: \`${entityType}#\${id}\`,
       SK: \`${entityType}#\${id}\`,
       id,
       ...input,
-      entityType: '${entityType}',
+      entityType: '${entityType}',${
+        this.getOwnerField(type)
+          ? `
+      '${this.getOwnerField(type)}': caller ? caller.sub : null,`
+          : ""
+      }
       createdAt: now,
       updatedAt: now
     };
@@ -158,6 +247,7 @@ const { unmarshall } = require('@aws-sdk/util-dynamodb');
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 
+${this.generateTypeAuthHelpers(type)}
 exports.handler = async (event) => {
   try {
     const id = event.arguments.id;
@@ -173,8 +263,19 @@ exports.handler = async (event) => {
     if (!result.Item) {
       throw new Error('${type.name} not found');
     }
+    ${
+      type.authRules
+        ? `
+    const item = unmarshall(result.Item);
+    const caller = getCallerIdentity(event);
+    if (!hasFullAccess(caller) && !isOwner(caller, item)) {
+      throw new Error('Unauthorized');
+    }
     
-    return unmarshall(result.Item);
+    return item;`
+        : `
+    return unmarshall(result.Item);`
+    }
   } catch (error) {
     console.error('Error reading ${entityType}:', error);
     throw error;
@@ -183,22 +284,111 @@ exports.handler = async (event) => {
 `;
   }
 
+  private generateListFunction(type: TypeMetadata): string {
+    const entityType = type.name.toLowerCase();
+
+    return `
+const { DynamoDBClient, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// nextToken is the base64 encoded LastEvaluatedKey of the previous page
+function decodeNextToken(nextToken) {
+  if (!nextToken) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(nextToken, 'base64').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid nextToken');
+  }
+}
+
+function encodeNextToken(lastEvaluatedKey) {
+  if (!lastEvaluatedKey) {
+    return null;
+  }
+  return Buffer.from(JSON.stringify(lastEvaluatedKey), 'utf8').toString('base64');
+}
+${this.generateFilledPageQueryHelper()}${this.generateTypeAuthHelpers(type)}
+exports.handler = async (event) => {
+  try {
+    const { limit, nextToken } = event.arguments;
+    const pageSize = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    ${
+      type.authRules
+        ? `
+    // Callers without full access only see the items they own
+    const caller = getCallerIdentity(event);
+    const fullAccess = hasFullAccess(caller);
+    if (!fullAccess && !(OWNER_FIELD && caller && caller.sub)) {
+      throw new Error('Unauthorized');
+    }
+    `
+        : ""
+    }
+    // GSI2: entityType + createdAt, newest first
+    const page = await queryFilledPage({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI2',
+      KeyConditionExpression: '#entityType = :entityType',
+      ExpressionAttributeNames: {
+        '#entityType': 'entityType'${
+          type.authRules
+            ? `,
+        ...(fullAccess ? {} : { '#owner': OWNER_FIELD })`
+            : ""
+        }
+      },
+      ExpressionAttributeValues: {
+        ':entityType': { S: '${entityType}' }${
+          type.authRules
+            ? `,
+        ...(fullAccess ? {} : { ':owner': { S: caller.sub } })`
+            : ""
+        }
+      },${
+        type.authRules
+          ? `
+      FilterExpression: fullAccess ? undefined : '#owner = :owner',`
+          : ""
+      }
+      ScanIndexForward: false
+    }, pageSize, decodeNextToken(nextToken), ['PK', 'SK', 'entityType', 'createdAt']);
+    
+    return {
+      items: page.items.map((item) => unmarshall(item)),
+      nextToken: encodeNextToken(page.lastEvaluatedKey)
+    };
+  } catch (error) {
+    console.error('Error listing ${entityType}:', error);
+    throw error;
+  }
+};
+`;
+  }
+
   private generateUpdateFunction(type: TypeMetadata): string {
     const entityType = type.name.toLowerCase();
 
     return `
 const { DynamoDBClient, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
-const { marshall } = require('@aws-sdk/util-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
-
+${this.generateTypeAuthHelpers(type)}
 exports.handler = async (event) => {
   try {
     const id = event.arguments.id;
     const input = event.arguments.input;
     const now = new Date().toISOString();
-    
+    ${type.authRules ? this.generateOwnerConditionCheck() : ""}    
     const updateExpression = [];
     const expressionAttributeValues = {
       ':updatedAt': { S: now }
@@ -218,7 +408,17 @@ exports.handler = async (event) => {
       }
     });
     
-    await dynamoClient.send(new UpdateItemCommand({
+    ${
+      type.authRules
+        ? `
+    if (!fullAccess) {
+      expressionAttributeNames['#owner'] = OWNER_FIELD;
+      expressionAttributeValues[':owner'] = { S: caller.sub };
+    }
+    `
+        : ""
+    }
+    const result = await dynamoClient.send(new UpdateItemCommand({
       TableName: TABLE_NAME,
       Key: {
         PK: { S: \`${entityType}#\${id}\` },
@@ -226,12 +426,19 @@ exports.handler = async (event) => {
       },
       UpdateExpression: \`SET \${updateExpression.join(', ')}\`,
       ExpressionAttributeNames: expressionAttributeNames,
-      ExpressionAttributeValues: expressionAttributeValues
+      ExpressionAttributeValues: expressionAttributeValues${
+        type.authRules
+          ? `,
+      ConditionExpression: fullAccess ? undefined : '#owner = :owner'`
+          : ""
+      },
+      // The whole item, so subscription filters see fields the update didn't touch
+      ReturnValues: 'ALL_NEW'
     }));
     
-    return { id, ...input, updatedAt: now };
+    return unmarshall(result.Attributes);
   } catch (error) {
-    console.error('Error updating ${entityType}:', error);
+    console.error('Error updating ${entityType}:', error);${type.authRules ? this.generateOwnerConditionError() : ""}
     throw error;
   }
 };
@@ -246,28 +453,435 @@ const { DynamoDBClient, DeleteItemCommand } = require('@aws-sdk/client-dynamodb'
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
-
+${this.generateTypeAuthHelpers(type)}
 exports.handler = async (event) => {
   try {
     const id = event.arguments.id;
-    
+    ${type.authRules ? this.generateOwnerConditionCheck() : ""}
     await dynamoClient.send(new DeleteItemCommand({
       TableName: TABLE_NAME,
       Key: {
         PK: { S: \`${entityType}#\${id}\` },
         SK: { S: \`${entityType}#\${id}\` }
+      }${
+        type.authRules
+          ? `,
+      ...(fullAccess ? {} : {
+        ConditionExpression: '#owner = :owner',
+        ExpressionAttributeNames: { '#owner': OWNER_FIELD },
+        ExpressionAttributeValues: { ':owner': { S: caller.sub } }
+      })`
+          : ""
       }
     }));
     
     return { id, deleted: true };
   } catch (error) {
-    console.error('Error deleting ${entityType}:', error);
+    console.error('Error deleting ${entityType}:', error);${type.authRules ? this.generateOwnerConditionError() : ""}
     throw error;
   }
 };
 `;
   }
 
+  /**
+   * Fields entity subscriptions can filter on: IDs, enums, the owner field
+   * and @partition fields. Free-form fields are left out, so subscribers
+   * can't probe values such as passwords with equality filters.
+   */
+  private getSubscriptionFilterFields(type: TypeMetadata): FieldMetadata[] {
+    const keyFields = [this.getOwnerField(type), ...(type.partition?.by || [])];
+    return type.fields.filter(
+      (field) =>
+        !field.isList &&
+        (field.type === "ID" ||
+          this.isEnumType(field.type) ||
+          (keyFields.includes(field.name) && this.isScalarType(field.type)))
+    );
+  }
+
+  private getOwnerField(type: TypeMetadata): string | undefined {
+    const ownerRule = type.authRules?.find((rule) => rule.allow === "owner");
+    return ownerRule ? ownerRule.ownerField || "owner" : undefined;
+  }
+
+  /**
+   * @auth helpers for CRUD handlers, empty when the type has no rules
+   */
+  private generateTypeAuthHelpers(type: TypeMetadata): string {
+    if (!type.authRules) {
+      return "";
+    }
+    const ownerField = this.getOwnerField(type);
+
+    return `${this.generateAuthHelpers(type.authRules)}
+// Attribute holding the owner's identity (null without an owner rule)
+const OWNER_FIELD = ${ownerField ? `'${ownerField}'` : "null"};
+
+function isOwner(caller, item) {
+  return !!OWNER_FIELD && !!caller && !!caller.sub && item[OWNER_FIELD] === caller.sub;
+}
+`;
+  }
+
+  /**
+   * @auth and $identity helpers for Query/Mutation field handlers
+   * Empty when the field has no rules and its SQL does not use the caller identity
+   */
+  private generateFieldAuthHelpers(
+    field: FieldMetadata,
+    substitutesSql: boolean = false
+  ): string {
+    const usesIdentity = substitutesSql && this.usesIdentityPlaceholders(field);
+    if (!field.authRules && !usesIdentity) {
+      return "";
+    }
+
+    return field.authRules
+      ? this.generateAuthHelpers(field.authRules)
+      : this.generateCallerIdentityHelper();
+  }
+
+  /**
+   * Field auth helpers plus the task owner lookup, for task trigger and result handlers
+   */
+  private generateTaskAuthHelpers(
+    field: FieldMetadata,
+    substitutesSql: boolean = false
+  ): string {
+    return `${
+      this.generateFieldAuthHelpers(field, substitutesSql) ||
+      this.generateCallerIdentityHelper()
+    }${this.generateTaskOwnerHelper()}`;
+  }
+
+  /**
+   * callbackUrl argument of triggerTask mutations, validated before the task starts
+   */
+  private generateCallbackUrlHelper(): string {
+    return `
+// Webhook called when the task finishes, from triggerTask*(callbackUrl: ...)
+// Plain http is only accepted where ALLOW_HTTP_CALLBACKS is set (local dev server)
+function getCallbackUrl(event) {
+  const callbackUrl = event.arguments?.callbackUrl;
+  if (!callbackUrl) {
+    return null;
+  }
+  let url;
+  try {
+    url = new URL(callbackUrl);
+  } catch (error) {
+    throw new Error('Invalid callbackUrl');
+  }
+  const allowHttp = process.env.ALLOW_HTTP_CALLBACKS === 'true';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    throw new Error('callbackUrl must use https');
+  }
+  return url.toString();
+}
+
+// Task arguments without callbackUrl, which does not change the query
+function getTaskArguments(event) {
+  const { callbackUrl, ...taskArguments } = event.arguments || {};
+  return taskArguments;
+}
+`;
+  }
+
+  /**
+   * Query for one page of a list operation
+   * DynamoDB applies Limit before FilterExpression, so a filtered query can
+   * return a short or empty page with more items left. The helper queries
+   * until the page is full or the index is exhausted.
+   */
+  private generateFilledPageQueryHelper(): string {
+    return `
+// keyAttributes: table and index keys, which make up LastEvaluatedKey
+async function queryFilledPage(params, pageSize, exclusiveStartKey, keyAttributes) {
+  const items = [];
+  let lastEvaluatedKey = exclusiveStartKey;
+  do {
+    const result = await dynamoClient.send(new QueryCommand({
+      ...params,
+      Limit: pageSize,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    items.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (items.length < pageSize && lastEvaluatedKey);
+  
+  if (items.length <= pageSize) {
+    return { items, lastEvaluatedKey };
+  }
+  // The last query matched more than fit: continue after the last item returned
+  const lastItem = items[pageSize - 1];
+  return {
+    items: items.slice(0, pageSize),
+    lastEvaluatedKey: Object.fromEntries(keyAttributes.map((name) => [name, lastItem[name]]))
+  };
+}
+`;
+  }
+
+  private generateTaskOwnerHelper(): string {
+    return `
+// Principal that owns a task, null for callers without an identity (API key)
+function getTaskOwner(event) {
+  const caller = getCallerIdentity(event);
+  return (caller && (caller.sub || caller.username)) || null;
+}
+
+// GSI1 partition of a principal's tasks, sorted by GSI1-SK (createdAt)
+function getTaskListKey(ownerId) {
+  return \`task#owner#\${ownerId || ''}\`;
+}
+`;
+  }
+
+  /**
+   * Refuse tasks created by another query or another principal
+   */
+  private generateTaskOwnershipCheck(field: FieldMetadata): string {
+    return `
+    if (task.queryName !== '${field.name}') {
+      throw new Error('Task not found');
+    }
+    if ((task.ownerId || null) !== getTaskOwner(event)) {
+      throw new Error('Unauthorized');
+    }
+    `;
+  }
+
+  /**
+   * Task cache for @sql_query(cacheTtlSeconds: ...) queries
+   * taskCache# items point at the task started for a rendered SQL statement;
+   * they carry no entityType, so the stream processor ignores them
+   */
+  private generateTaskCacheHelper(cacheTtlSeconds: number): string {
+    return `
+const CACHE_TTL_SECONDS = ${cacheTtlSeconds};
+
+// Tasks are owned by their principal, so the owner is part of the key
+function getTaskCacheKey(sql, parameters, ownerId) {
+  return crypto.createHash('sha256').update(JSON.stringify([sql, parameters, ownerId])).digest('hex');
+}
+
+async function findCachedTask(cacheKey) {
+  const cached = await dynamoClient.send(new GetItemCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: { S: \`taskCache#\${cacheKey}\` },
+      SK: { S: \`taskCache#\${cacheKey}\` }
+    }
+  }));
+  if (!cached.Item) {
+    return null;
+  }
+  const entry = unmarshall(cached.Item);
+  if (entry.cacheExpiresAt <= Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+  
+  const task = await dynamoClient.send(new GetItemCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: { S: \`task#\${entry.taskId}\` },
+      SK: { S: \`task#\${entry.taskId}\` }
+    }
+  }));
+  const taskStatus = task.Item ? unmarshall(task.Item).taskStatus : null;
+  return taskStatus === 'SUCCEEDED' || taskStatus === 'RUNNING' ? entry.taskId : null;
+}
+
+async function cacheTask(cacheKey, taskId) {
+  await dynamoClient.send(new PutItemCommand({
+    TableName: TABLE_NAME,
+    Item: marshall({
+      PK: \`taskCache#\${cacheKey}\`,
+      SK: \`taskCache#\${cacheKey}\`,
+      taskId,
+      // Epoch seconds, also the table's TTL attribute
+      cacheExpiresAt: Math.floor(Date.now() / 1000) + CACHE_TTL_SECONDS,
+      createdAt: new Date().toISOString()
+    })
+  }));
+}
+`;
+  }
+
+  private generateArgumentHashHelper(): string {
+    return `
+// SHA-256 of the task arguments with object keys sorted, so equal arguments hash equally
+function hashArguments(args) {
+  const canonical = (value) => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((sorted, key) => {
+        sorted[key] = canonical(value[key]);
+        return sorted;
+      }, {});
+    }
+    return value;
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(canonical(args || {}))).digest('hex');
+}
+`;
+  }
+
+  private usesIdentityPlaceholders(field: FieldMetadata): boolean {
+    return (
+      !!field.sqlQuery &&
+      getSqlTemplateParams(compileSqlTemplate(field.sqlQuery.query)).some(
+        (param) => param.source === "identity"
+      )
+    );
+  }
+
+  private generateFieldAuthCheck(field: FieldMetadata): string {
+    if (!field.authRules) {
+      return "";
+    }
+    return `
+    if (!hasFullAccess(getCallerIdentity(event))) {
+      throw new Error('Unauthorized');
+    }
+    `;
+  }
+
+  private generateAuthHelpers(rules: AuthRule[]): string {
+    return `
+const AUTH_RULES = ${JSON.stringify(rules)};
+${this.generateCallerIdentityHelper()}
+// Groups and private rules grant access to every item
+function hasFullAccess(caller) {
+  if (!caller) {
+    return false;
+  }
+  return AUTH_RULES.some((rule) =>
+    rule.allow === 'private' ||
+    (rule.allow === 'groups' && (rule.groups || []).some((group) => caller.groups.includes(group)))
+  );
+}
+`;
+  }
+
+  private generateCallerIdentityHelper(): string {
+    return `
+// Caller identity from the AppSync event (Cognito, OIDC, IAM or Lambda authorizer)
+function getCallerIdentity(event) {
+  const identity = event.identity;
+  if (!identity) {
+    return null;
+  }
+  const claims = identity.claims || identity.resolverContext || {};
+  const groups = identity.groups || claims['cognito:groups'] || claims.groups || [];
+  return {
+    sub: identity.sub || claims.sub || identity.userArn || null,
+    username: identity.username || claims['cognito:username'] || claims.username || null,
+    groups: Array.isArray(groups) ? groups : String(groups).split(','),
+    claims
+  };
+}
+`;
+  }
+
+  /**
+   * Runtime renderer for templates compiled by compileSqlTemplate
+   * Placeholders in SQL code become "?" execution parameters, placeholders
+   * inside quoted literals or identifiers are spliced in with escaping and
+   * {{#if}} blocks are kept only when their argument is set
+   */
+  private generateSqlTemplateRenderer(): string {
+    return `
+function renderSqlTemplate(nodes, values, output = { sql: '', parameters: [] }) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output.sql += node.value;
+      continue;
+    }
+    if (node.type === 'if') {
+      const argument = values.args[node.argument];
+      const isSet = argument !== null && argument !== undefined && !(Array.isArray(argument) && argument.length === 0);
+      if (isSet) {
+        renderSqlTemplate(node.children, values, output);
+      }
+      continue;
+    }
+    const value = node.name.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), values[node.source]);
+    if (Array.isArray(value)) {
+      if (node.mode !== 'bind' || !node.inClause) {
+        throw new Error(\`List placeholder $\${node.source}.\${node.name} can only be used in an IN clause\`);
+      }
+      // One parameter per element; an empty list becomes (NULL), which matches nothing
+      const markers = value.length > 0 ? value.map(() => '?').join(', ') : 'NULL';
+      output.sql += node.inClause === 'bare' ? '(' + markers + ')' : markers;
+      output.parameters.push(...value.map(escapeSqlValue));
+    } else if (node.mode === 'bind' && node.inClause === 'bare') {
+      output.sql += '(?)';
+      output.parameters.push(escapeSqlValue(value));
+    } else if (node.mode === 'bind') {
+      output.sql += '?';
+      output.parameters.push(escapeSqlValue(value));
+    } else if (node.mode === 'literal') {
+      output.sql += value === null || value === undefined ? '' : String(value).split("'").join("''");
+    } else {
+      output.sql += value === null || value === undefined ? '' : String(value).split('"').join('""');
+    }
+  }
+  return output;
+}
+`;
+  }
+
+  /**
+   * Placeholder values for renderSqlTemplate
+   * $source falls back to the arguments, as AppSync passes no source to root fields
+   */
+  private generateSqlTemplateValues(
+    field: FieldMetadata,
+    indent = "    "
+  ): string {
+    const usesIdentity = this.usesIdentityPlaceholders(field);
+    const code = `
+// Apply GraphQL argument defaults before rendering the query
+event.arguments = { ...ARGUMENT_DEFAULTS, ...(event.arguments || {}) };
+const templateValues = {
+  args: event.arguments || {},
+  source: { ...(event.arguments || {}), ...(event.source || {}) },
+  identity: ${usesIdentity ? "getCallerIdentity(event)" : "null"}
+};${
+      usesIdentity
+        ? `
+if (!templateValues.identity) {
+  throw new Error('Unauthorized: this query requires a caller identity');
+}`
+        : ""
+    }`;
+    return code.replace(/\n/g, `\n${indent}`);
+  }
+
+  /**
+   * Callers without full access may only touch items they own (update/delete)
+   */
+  private generateOwnerConditionCheck(): string {
+    return `
+    const caller = getCallerIdentity(event);
+    const fullAccess = hasFullAccess(caller);
+    if (!fullAccess && !(OWNER_FIELD && caller && caller.sub)) {
+      throw new Error('Unauthorized');
+    }
+    `;
+  }
+
+  private generateOwnerConditionError(): string {
+    return `
+    if (error.name === 'ConditionalCheckFailedException') {
+      throw new Error('Unauthorized');
+    }`;
+  }
+
   private generateSqlQueryFunction(field: FieldMetadata): string {
     const query = field.sqlQuery!.query;
     const isJoinTable = query.includes("$join_table(");
@@ -284,7 +898,7 @@ const DATABASE_NAME = process.env.ATHENA_DATABASE_NAME;
 const S3_OUTPUT_LOCATION = process.env.ATHENA_OUTPUT_LOCATION;
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 
-// SQL injection prevention function
+// Format a value as a SQL literal (Athena execution parameters are SQL literals)
 function escapeSqlValue(value) {
   if (value === null || value === undefined) {
     return 'NULL';
@@ -307,29 +921,16 @@ function escapeSqlValue(value) {
   }
 }
 
+${this.generateFieldAuthHelpers(field, true)}${this.generateSqlTemplateRenderer()}
+const SQL_TEMPLATE = ${JSON.stringify(compileSqlTemplate(query))};
+const ARGUMENT_DEFAULTS = ${JSON.stringify(this.getArgumentDefaults(field))};
+
 exports.handler = async (event) => {
-  try {
-    let query = \`${query}\`;
-    
-    // Replace parameter placeholders with SQL-safe escaping
-    if (event.arguments) {
-      Object.entries(event.arguments).forEach(([key, value]) => {
-        const argsPattern = '$args.' + key;
-        const sourcePattern = '$source.' + key;
-        const sqlSafeValue = escapeSqlValue(value);
-        query = query.split(argsPattern).join(sqlSafeValue);
-        query = query.split(sourcePattern).join(sqlSafeValue);
-      });
-    }
-    
-    if (event.source) {
-      Object.entries(event.source).forEach(([key, value]) => {
-        const sourcePattern = '$source.' + key;
-        const sqlSafeValue = escapeSqlValue(value);
-        query = query.split(sourcePattern).join(sqlSafeValue);
-      });
-    }
+  try {${this.generateFieldAuthCheck(field)}${this.generateSqlTemplateValues(field)}
     
+    // Placeholders are bound as Athena execution parameters
+    const rendered = renderSqlTemplate(SQL_TEMPLATE, templateValues);
+    let query = rendered.sql;
     ${isJoinTable ? this.generateJoinTableLogic() : ""}
     
     // Replace join table references
@@ -338,6 +939,7 @@ exports.handler = async (event) => {
     // Execute Athena query
     const queryExecution = await athenaClient.send(new StartQueryExecutionCommand({
       QueryString: query,
+      ExecutionParameters: rendered.parameters.length > 0 ? rendered.parameters : undefined,
       QueryExecutionContext: {
         Database: DATABASE_NAME
       },
@@ -557,47 +1159,449 @@ exports.handler = async (event) => {
 
   // Removed: generateResolverFunction - @resolver directive no longer supported
 
-  private generateStreamProcessor(): string {
-    // Build schema mapping: entityType -> { fieldName -> GraphQL type }
-    const schemaMapping: Record<string, Record<string, string>> = {};
+  /**
+   * Scheduled Lambda that merges each partition's one-row Parquet files
+   * into its bucket files; also removes data files on behalf of the Node.js
+   * deletion listeners, which cannot rewrite Parquet
+   */
+  private generateParquetCompactor(): string {
+    const tables = [
+      ...this.schemaMetadata.types
+        .filter((type) => !type.isPrimitive && !type.isTaskResponse)
+        .map((type) => type.name.toLowerCase()),
+      ...this.schemaMetadata.joinTables.map((joinTable) =>
+        joinTable.toLowerCase()
+      ),
+    ];
 
+    // Tables with a @partition layout other than the year/month/day default
+    const partitionSpecs: Record<string, Record<string, unknown>> = {};
     for (const type of this.schemaMetadata.types) {
-      if (!type.isPrimitive && !type.isTaskResponse) {
-        const entityType = type.name.toLowerCase();
-        schemaMapping[entityType] = {};
-
-        for (const field of type.fields) {
-          // Skip internal fields
-          if (
-            field.name === "PK" ||
-            field.name === "SK" ||
-            field.name === "GSI1-PK" ||
-            field.name === "GSI1-SK" ||
-            field.name === "entityType" ||
-            field.name === "entityId" ||
-            field.name.startsWith("_partition_")
-          ) {
-            continue;
-          }
-
-          // Store the GraphQL type (remove list and non-null markers for base type)
-          const baseType = field.type.replace(/[\[\]!]/g, "").trim();
-          schemaMapping[entityType][field.name] = baseType;
-        }
+      if (!type.isPrimitive && !type.isTaskResponse && type.partition) {
+        const { by, granularity } = getPartitionLayout(type);
+        partitionSpecs[type.name.toLowerCase()] = { by, granularity };
       }
     }
 
-    // Also build schema mapping for join tables from mutations
-    const joinTableSchemas: Record<string, Record<string, string>> = {};
-    for (const mutation of this.schemaMetadata.mutations) {
-      if (mutation.sqlQuery?.query) {
-        const query = mutation.sqlQuery.query;
-        const joinTableMatch = query.match(/\$join_table\(([^)]+)\)/);
-        if (joinTableMatch) {
-          const tableName = joinTableMatch[1].toLowerCase();
-          if (!joinTableSchemas[tableName]) {
-            joinTableSchemas[tableName] = {};
-          }
+    return `
+import json
+import math
+import os
+import time
+import uuid
+import zlib
+import boto3
+import pyarrow as pa
+import pyarrow.compute as pc
+import pyarrow.parquet as pq
+from concurrent.futures import ThreadPoolExecutor
+from contextlib import contextmanager
+from datetime import datetime, timedelta
+from io import BytesIO
+import logging
+
+# Configure logging
+logger = logging.getLogger()
+logger.setLevel(logging.INFO)
+
+# Initialize AWS clients
+s3_client = boto3.client('s3')
+dynamodb_client = boto3.client('dynamodb')
+
+BUCKET_NAME = os.environ['S3_BUCKET_NAME']
+TABLE_NAME = os.environ['DYNAMODB_TABLE_NAME']
+
+# Entity and join tables written by the stream processor
+COMPACTION_TABLES = ${JSON.stringify(tables)}
+PARTITION_SPECS = ${JSON.stringify(partitionSpecs)}
+DEFAULT_PARTITION_SPEC = {'by': [], 'granularity': 'DAY'}
+
+# Partitions younger than this still receive new rows and are left alone
+MIN_PARTITION_AGE_DAYS = int(os.environ.get('COMPACTION_MIN_AGE_DAYS', '1'))
+LOOKBACK_DAYS = int(os.environ.get('COMPACTION_LOOKBACK_DAYS', '7'))
+
+# In-memory Arrow size per bucket file, roughly 32-64 MB of Parquet
+TARGET_BUCKET_BYTES = 256 * 1024 * 1024
+READ_CONCURRENCY = 32
+${this.generateCompactionPythonHelpers()}
+def lambda_handler(event, context):
+    """Compact recent partitions, or delete data files for the deletion listeners"""
+    if event.get('action') == 'deleteDataFiles':
+        s3_keys = event.get('s3Keys', [])
+        for s3_key in s3_keys:
+            delete_data_file(s3_key)
+        return {'deleted': len(s3_keys)}
+    
+    # Scheduled run, or a backfill: {"startDate": "2025-01-01", "endDate": "2025-01-31", "tables": [...]}
+    end_date = parse_date(event.get('endDate')) or (datetime.utcnow() - timedelta(days=MIN_PARTITION_AGE_DAYS)).date()
+    start_date = parse_date(event.get('startDate')) or end_date - timedelta(days=LOOKBACK_DAYS - 1)
+    tables = event.get('tables') or COMPACTION_TABLES
+    
+    compacted_files = 0
+    failed_partitions = []
+    for table_name in tables:
+        spec = PARTITION_SPECS.get(table_name, DEFAULT_PARTITION_SPEC)
+        time_partitions = get_time_partitions(spec['granularity'], start_date, end_date)
+        for prefix in list_partition_prefixes(table_name, spec['by']):
+            for time_partition in time_partitions:
+                partition = prefix + time_partition
+                try:
+                    compacted_files += compact_partition(table_name, partition)
+                except Exception as e:
+                    logger.error(f"Error compacting {table_name}/{partition}: {str(e)}")
+                    failed_partitions.append(f"{table_name}/{partition}")
+    
+    logger.info(f"Compacted {compacted_files} data files")
+    if failed_partitions:
+        # Fail the run so the partitions are retried; compaction is idempotent
+        raise Exception(f"Compaction failed for {', '.join(failed_partitions)}")
+    return {'compactedFiles': compacted_files}
+
+def parse_date(value):
+    return datetime.strptime(value, '%Y-%m-%d').date() if value else None
+
+def get_time_partitions(granularity, start_date, end_date):
+    """Time partition paths of the days between two dates"""
+    partitions = []
+    day = start_date
+    while day <= end_date:
+        next_day = day + timedelta(days=1)
+        if granularity == 'HOUR':
+            partitions += [f"year={day:%Y}/month={day:%m}/day={day:%d}/hour={hour:02d}" for hour in range(24)]
+        elif granularity == 'DAY':
+            partitions.append(f"year={day:%Y}/month={day:%m}/day={day:%d}")
+        # Month and year partitions receive rows until their last day
+        elif granularity == 'MONTH' and next_day.month != day.month:
+            partitions.append(f"year={day:%Y}/month={day:%m}")
+        elif granularity == 'YEAR' and next_day.year != day.year:
+            partitions.append(f"year={day:%Y}")
+        day = next_day
+    return partitions
+
+def list_partition_prefixes(table_name, partition_fields):
+    """Path prefixes of the @partition field values present in a table, e.g. tenantId=acme/"""
+    prefixes = ['']
+    paginator = s3_client.get_paginator('list_objects_v2')
+    for field in partition_fields:
+        next_prefixes = []
+        for prefix in prefixes:
+            base = f"tables/{table_name}/{prefix}"
+            for page in paginator.paginate(Bucket=BUCKET_NAME, Prefix=f"{base}{field}=", Delimiter='/'):
+                for common_prefix in page.get('CommonPrefixes', []):
+                    next_prefixes.append(common_prefix['Prefix'][len(base):])
+        prefixes = next_prefixes
+    return prefixes
+
+def list_data_files(table_name, partition):
+    """One-row data files of a partition, without its bucket files"""
+    prefix = f"tables/{table_name}/{partition}/"
+    data_files = []
+    paginator = s3_client.get_paginator('list_objects_v2')
+    for page in paginator.paginate(Bucket=BUCKET_NAME, Prefix=prefix):
+        for obj in page.get('Contents', []):
+            file_name = obj['Key'][len(prefix):]
+            if '/' not in file_name and file_name.endswith('.parquet') and not file_name.startswith(COMPACTED_FILE_PREFIX):
+                data_files.append(obj)
+    return data_files
+
+def compact_partition(table_name, partition):
+    """Merge a partition's data files into its bucket files, returning the number merged"""
+    if not list_data_files(table_name, partition):
+        return 0
+    
+    with partition_lock(table_name, partition) as manifest:
+        # Writers that find the lock wait and then change the bucket files, so only
+        # files listed while holding it are merged
+        data_files = list_data_files(table_name, partition)
+        if not data_files:
+            return 0
+        
+        with ThreadPoolExecutor(max_workers=READ_CONCURRENCY) as executor:
+            row_tables = list(executor.map(lambda obj: read_parquet_from_s3(obj['Key']), data_files))
+        changes = {}
+        for obj, row_table in zip(data_files, row_tables):
+            # Deleted after listing - its deletion is replayed on the buckets once the lock is released
+            if row_table is not None:
+                changes[parse_data_file_key(obj['Key'])[2]] = row_table
+        
+        if 'bucketCount' in manifest:
+            # The bucket count never changes, rows would otherwise move between files
+            bucket_count = int(manifest['bucketCount']['N'])
+        else:
+            total_bytes = sum(row_table.nbytes for row_table in changes.values())
+            bucket_count = max(1, math.ceil(total_bytes / TARGET_BUCKET_BYTES))
+            # From here on the partition is compacted, also if this run fails halfway
+            dynamodb_client.update_item(
+                TableName=TABLE_NAME,
+                Key=get_manifest_key(table_name, partition),
+                UpdateExpression='SET bucketCount = :bucketCount',
+                ExpressionAttributeValues={':bucketCount': {'N': str(bucket_count)}}
+            )
+        
+        rewrite_compacted_rows(table_name, partition, bucket_count, changes)
+        
+        # The rows now live in the bucket files; until these deletes complete Athena
+        # can read a row twice, but never misses one
+        for i in range(0, len(data_files), 1000):
+            s3_client.delete_objects(
+                Bucket=BUCKET_NAME,
+                Delete={'Objects': [{'Key': obj['Key']} for obj in data_files[i:i + 1000]], 'Quiet': True}
+            )
+        
+        dynamodb_client.update_item(
+            TableName=TABLE_NAME,
+            Key=get_manifest_key(table_name, partition),
+            UpdateExpression='SET compactedAt = :now ADD compactedFiles :count',
+            ExpressionAttributeValues={
+                ':now': {'S': datetime.utcnow().isoformat()},
+                ':count': {'N': str(len(data_files))}
+            }
+        )
+        logger.info(f"Compacted {len(data_files)} data files of {table_name}/{partition} into {bucket_count} bucket files")
+        return len(data_files)
+`;
+  }
+
+  /**
+   * Scheduled Lambda for --table-format iceberg: bin-packs the small data
+   * files each stream batch's MERGE adds, then expires old snapshots
+   */
+  private generateIcebergOptimizer(): string {
+    const tables = Object.keys(this.getIcebergTables());
+
+    return `${this.generateIcebergStatementHelper()}
+const ICEBERG_TABLES = ${JSON.stringify(tables)};
+
+exports.handler = async (event) => {
+  // Optional { tables: [...] } limits a run to some tables
+  const tables = Array.isArray(event?.tables)
+    ? event.tables.map((name) => String(name).toLowerCase()).filter((name) => ICEBERG_TABLES.includes(name))
+    : ICEBERG_TABLES;
+  const failedTables = [];
+  
+  for (const tableName of tables) {
+    try {
+      await runIcebergStatement(\`OPTIMIZE "\${tableName}" REWRITE DATA USING BIN_PACK\`);
+      // Removes snapshots past the table's retention and files no snapshot references
+      await runIcebergStatement(\`VACUUM "\${tableName}"\`);
+      console.log(\`Optimized Iceberg table \${tableName}\`);
+    } catch (error) {
+      console.error(\`Error optimizing Iceberg table \${tableName}:\`, error);
+      failedTables.push(tableName);
+    }
+  }
+  
+  if (failedTables.length > 0) {
+    throw new Error(\`Failed to optimize Iceberg tables: \${failedTables.join(', ')}\`);
+  }
+  return { optimizedTables: tables.length };
+};
+`;
+  }
+
+  /**
+   * Python helpers shared by the stream processor and the Parquet compactor
+   * A compacted partition keeps its rows in compacted-<bucket>.parquet files,
+   * each row in the bucket picked by a hash of its row key (the name of the
+   * data file it was written to: id, relationId or legacy join key). The
+   * manifest item (PK compaction#<table>, SK <partition path>) records the
+   * bucket count and serves as the partition lock.
+   */
+  private generateCompactionPythonHelpers(): string {
+    return `
+COMPACTED_FILE_PREFIX = 'compacted-'
+ROW_KEY_COLUMN = '_row_key'
+PARTITION_LOCK_TTL_SECONDS = 900
+PARTITION_LOCK_WAIT_SECONDS = 240
+
+class PartitionLockTimeout(Exception):
+    """Raised when a partition stays locked longer than the caller can wait"""
+
+def parse_data_file_key(s3_key):
+    """Split tables/<table>/<partition path>/<row key>.parquet into its parts"""
+    parts = s3_key.split('/')
+    row_key = parts[-1][:-len('.parquet')] if parts[-1].endswith('.parquet') else parts[-1]
+    return parts[1], '/'.join(parts[2:-1]), row_key
+
+def get_manifest_key(table_name, partition):
+    return {'PK': {'S': f"compaction#{table_name}"}, 'SK': {'S': partition}}
+
+def get_partition_manifest(table_name, partition):
+    result = dynamodb_client.get_item(
+        TableName=TABLE_NAME,
+        Key=get_manifest_key(table_name, partition),
+        ConsistentRead=True
+    )
+    return result.get('Item')
+
+def is_partition_compacted(manifest):
+    """Compacted or being compacted - changes then have to go through the bucket files"""
+    return manifest is not None and ('bucketCount' in manifest or 'lockOwner' in manifest)
+
+@contextmanager
+def partition_lock(table_name, partition, wait_seconds=PARTITION_LOCK_WAIT_SECONDS):
+    """Hold the partition lock, yielding the manifest item"""
+    owner = str(uuid.uuid4())
+    deadline = time.time() + wait_seconds
+    while True:
+        now = int(time.time())
+        try:
+            manifest = dynamodb_client.update_item(
+                TableName=TABLE_NAME,
+                Key=get_manifest_key(table_name, partition),
+                UpdateExpression='SET lockOwner = :owner, lockExpiresAt = :expiresAt',
+                ConditionExpression='attribute_not_exists(lockOwner) OR lockExpiresAt < :now',
+                ExpressionAttributeValues={
+                    ':owner': {'S': owner},
+                    ':expiresAt': {'N': str(now + PARTITION_LOCK_TTL_SECONDS)},
+                    ':now': {'N': str(now)}
+                },
+                ReturnValues='ALL_NEW'
+            )['Attributes']
+            break
+        except dynamodb_client.exceptions.ConditionalCheckFailedException:
+            if time.time() >= deadline:
+                raise PartitionLockTimeout(f"Partition {table_name}/{partition} is locked")
+            time.sleep(1)
+    
+    try:
+        yield manifest
+    finally:
+        try:
+            dynamodb_client.update_item(
+                TableName=TABLE_NAME,
+                Key=get_manifest_key(table_name, partition),
+                UpdateExpression='REMOVE lockOwner, lockExpiresAt',
+                ConditionExpression='lockOwner = :owner',
+                ExpressionAttributeValues={':owner': {'S': owner}}
+            )
+        except dynamodb_client.exceptions.ConditionalCheckFailedException:
+            logger.warning(f"Lock on {table_name}/{partition} expired before it was released")
+
+def get_bucket_key(table_name, partition, bucket):
+    return f"tables/{table_name}/{partition}/{COMPACTED_FILE_PREFIX}{bucket:04d}.parquet"
+
+def get_row_bucket(row_key, bucket_count):
+    return zlib.crc32(row_key.encode('utf-8')) % bucket_count
+
+def read_parquet_from_s3(s3_key):
+    """Read a Parquet object as an Arrow table, or None if it does not exist"""
+    try:
+        response = s3_client.get_object(Bucket=BUCKET_NAME, Key=s3_key)
+    except s3_client.exceptions.NoSuchKey:
+        return None
+    return pq.read_table(BytesIO(response['Body'].read()))
+
+def concat_row_tables(tables):
+    """Concatenate rows whose minimal column types differ between data files"""
+    try:
+        return pa.concat_tables(tables, promote_options='permissive')
+    except TypeError:
+        # pyarrow < 14
+        return pa.concat_tables(tables, promote=True)
+
+def with_row_key(row_table, row_key):
+    if ROW_KEY_COLUMN in row_table.column_names:
+        row_table = row_table.drop([ROW_KEY_COLUMN])
+    return row_table.append_column(ROW_KEY_COLUMN, pa.array([row_key] * row_table.num_rows, pa.string()))
+
+def rewrite_compacted_rows(table_name, partition, bucket_count, changes):
+    """Apply row changes (row key -> Arrow table, or None to delete) to the bucket files"""
+    changes_by_bucket = {}
+    for row_key, row_table in changes.items():
+        changes_by_bucket.setdefault(get_row_bucket(row_key, bucket_count), {})[row_key] = row_table
+    
+    for bucket, bucket_changes in changes_by_bucket.items():
+        bucket_key = get_bucket_key(table_name, partition, bucket)
+        tables = []
+        existing = read_parquet_from_s3(bucket_key)
+        if existing is not None:
+            changed = pa.array(list(bucket_changes.keys()), pa.string())
+            tables.append(existing.filter(pc.invert(pc.is_in(existing.column(ROW_KEY_COLUMN), value_set=changed))))
+        tables.extend(with_row_key(row_table, row_key) for row_key, row_table in bucket_changes.items() if row_table is not None)
+        
+        merged = concat_row_tables(tables) if tables else None
+        if merged is None or merged.num_rows == 0:
+            s3_client.delete_object(Bucket=BUCKET_NAME, Key=bucket_key)
+            continue
+        
+        # A single PUT replaces the bucket file, so Athena sees either the old or the new rows
+        parquet_buffer = BytesIO()
+        pq.write_table(merged, parquet_buffer, compression='snappy', version='2.6')
+        s3_client.put_object(
+            Bucket=BUCKET_NAME,
+            Key=bucket_key,
+            Body=parquet_buffer.getvalue(),
+            ContentType='application/octet-stream'
+        )
+        logger.info(f"Rewrote {bucket_key} with {merged.num_rows} rows")
+
+def delete_data_file(s3_key):
+    """Delete a row's data file, or its row in the bucket file if the partition is compacted"""
+    table_name, partition, row_key = parse_data_file_key(s3_key)
+    if not is_partition_compacted(get_partition_manifest(table_name, partition)):
+        s3_client.delete_object(Bucket=BUCKET_NAME, Key=s3_key)
+        # A compaction that started meanwhile may already have read the file
+        if not is_partition_compacted(get_partition_manifest(table_name, partition)):
+            return
+    
+    with partition_lock(table_name, partition) as manifest:
+        if 'bucketCount' in manifest:
+            rewrite_compacted_rows(table_name, partition, int(manifest['bucketCount']['N']), {row_key: None})
+        s3_client.delete_object(Bucket=BUCKET_NAME, Key=s3_key)
+`;
+  }
+
+  private generateStreamProcessor(): string {
+    // Build schema mapping: entityType -> { fieldName -> GraphQL type }
+    const schemaMapping: Record<string, Record<string, string>> = {};
+
+    for (const type of this.schemaMetadata.types) {
+      if (!type.isPrimitive && !type.isTaskResponse) {
+        const entityType = type.name.toLowerCase();
+        schemaMapping[entityType] = {};
+
+        for (const field of type.fields) {
+          // Skip internal fields
+          if (
+            field.name === "PK" ||
+            field.name === "SK" ||
+            field.name === "GSI1-PK" ||
+            field.name === "GSI1-SK" ||
+            field.name === "entityType" ||
+            field.name === "entityId" ||
+            field.name.startsWith("_partition_")
+          ) {
+            continue;
+          }
+
+          // Store the GraphQL type (remove list and non-null markers for base type)
+          // Enum values are written to Parquet as strings
+          const baseType = field.type.replace(/[\[\]!]/g, "").trim();
+          schemaMapping[entityType][field.name] = this.isEnumType(baseType)
+            ? "String"
+            : baseType;
+        }
+
+        // Owner attribute written by @auth owner rules
+        const ownerField = this.getOwnerField(type);
+        if (ownerField && !schemaMapping[entityType][ownerField]) {
+          schemaMapping[entityType][ownerField] = "String";
+        }
+      }
+    }
+
+    // Also build schema mapping for join tables from mutations
+    const joinTableSchemas: Record<string, Record<string, string>> = {};
+    for (const mutation of this.schemaMetadata.mutations) {
+      if (mutation.sqlQuery?.query) {
+        const query = mutation.sqlQuery.query;
+        const joinTableMatch = query.match(/\$join_table\(([^)]+)\)/);
+        if (joinTableMatch) {
+          const tableName = joinTableMatch[1].toLowerCase();
+          if (!joinTableSchemas[tableName]) {
+            joinTableSchemas[tableName] = {};
+          }
 
           // Extract column definitions from INSERT statement
           const insertMatch = query.match(
@@ -617,7 +1621,11 @@ exports.handler = async (event) => {
                 );
                 if (arg) {
                   const baseType = arg.type.replace(/[\[\]!]/g, "").trim();
-                  joinTableSchemas[tableName][columnName] = baseType;
+                  joinTableSchemas[tableName][columnName] = this.isEnumType(
+                    baseType
+                  )
+                    ? "String"
+                    : baseType;
                 } else {
                   // Default to String for IDs
                   joinTableSchemas[tableName][columnName] = "String";
@@ -629,6 +1637,15 @@ exports.handler = async (event) => {
       }
     }
 
+    // @partition layout of each entity table, join tables use the default layout
+    const partitionSpecs: Record<string, Record<string, unknown>> = {};
+    for (const type of this.schemaMetadata.types) {
+      if (!type.isPrimitive && !type.isTaskResponse) {
+        const { by, time, granularity } = getPartitionLayout(type);
+        partitionSpecs[type.name.toLowerCase()] = { by, time, granularity };
+      }
+    }
+
     const fs = require("fs");
     const path = require("path");
 
@@ -642,7 +1659,8 @@ exports.handler = async (event) => {
         /# SCHEMA_MAPPING_PLACEHOLDER/,
         `# Schema mapping from GraphQL types
 SCHEMA_MAPPING = ${JSON.stringify(schemaMapping, null, 2)}
-JOIN_TABLE_SCHEMAS = ${JSON.stringify(joinTableSchemas, null, 2)}`
+JOIN_TABLE_SCHEMAS = ${JSON.stringify(joinTableSchemas, null, 2)}
+PARTITION_SPECS = ${JSON.stringify(partitionSpecs, null, 2)}`
       );
 
       return pythonCode;
@@ -651,11 +1669,16 @@ JOIN_TABLE_SCHEMAS = ${JSON.stringify(joinTableSchemas, null, 2)}`
       return `
 import json
 import os
+import time
+import uuid
+import zlib
 import boto3
 import pandas as pd
 import pyarrow as pa
+import pyarrow.compute as pc
 import pyarrow.parquet as pq
-from datetime import datetime
+from contextlib import contextmanager
+from datetime import datetime, timezone
 from io import BytesIO
 import logging
 
@@ -666,19 +1689,29 @@ logger.setLevel(logging.INFO)
 # Initialize AWS clients
 s3_client = boto3.client('s3')
 sqs_client = boto3.client('sqs')
+dynamodb_client = boto3.client('dynamodb')
 
 BUCKET_NAME = os.environ['S3_BUCKET_NAME']
+TABLE_NAME = os.environ['DYNAMODB_TABLE_NAME']
 CASCADE_DELETION_QUEUE_URL = os.environ.get('CASCADE_DELETION_QUEUE_URL')
 
 # Schema mapping from GraphQL types
 SCHEMA_MAPPING = ${JSON.stringify(schemaMapping, null, 2)}
 JOIN_TABLE_SCHEMAS = ${JSON.stringify(joinTableSchemas, null, 2)}
 
+# Partition layout of each entity table (see @partition)
+PARTITION_SPECS = ${JSON.stringify(partitionSpecs, null, 2)}
+DEFAULT_PARTITION_SPEC = {'by': [], 'time': 'createdAt', 'granularity': 'DAY'}
+${this.generateCompactionPythonHelpers()}
+
 def lambda_handler(event, context):
     """Main Lambda handler for DynamoDB stream processing"""
     for record in event['Records']:
         try:
             process_record(record)
+        except PartitionLockTimeout:
+            # Retry the batch rather than lose a change to a compacted partition
+            raise
         except Exception as e:
             logger.error(f"Error processing record: {str(e)}")
             # Continue processing other records
@@ -702,6 +1735,8 @@ def process_record(record):
         else:
             handle_insert_update_operation(record, event_name, current_date, year, month, day)
             
+    except PartitionLockTimeout:
+        raise
     except Exception as e:
         logger.error(f"Error processing stream record: {str(e)}")
 
@@ -749,23 +1784,25 @@ def handle_delete_operation(record, current_date, year, month, day):
         
         # Delete from S3
         try:
-            s3_client.delete_object(Bucket=BUCKET_NAME, Key=s3_key)
+            delete_data_file(s3_key)
             logger.info(f"Successfully deleted legacy join table S3 object: {s3_key}")
+        except PartitionLockTimeout:
+            raise
         except Exception as e:
             logger.warning(f"S3 object may not exist or already deleted: {s3_key} - {str(e)}")
     else:
         # Regular entity deletion - delete S3 file and trigger cascade deletion
-        item_date = parse_item_date(item.get('createdAt'), current_date)
-        item_year, item_month, item_day = format_date_parts(item_date)
-        
-        s3_key = f"tables/{entity_type}/year={item_year}/month={item_month}/day={item_day}/{item['id']}.parquet"
+        partition_path = get_partition_path(item, entity_type, current_date)
+        s3_key = f"tables/{entity_type}/{partition_path}/{item['id']}.parquet"
         
         logger.info(f"Deleting entity S3 object: {s3_key}")
         
         # Delete from S3
         try:
-            s3_client.delete_object(Bucket=BUCKET_NAME, Key=s3_key)
+            delete_data_file(s3_key)
             logger.info(f"Successfully deleted entity S3 object: {s3_key}")
+        except PartitionLockTimeout:
+            raise
         except Exception as e:
             logger.warning(f"S3 object may not exist or already deleted: {s3_key} - {str(e)}")
         
@@ -809,7 +1846,17 @@ def handle_insert_update_operation(record, event_name, current_date, year, month
         # Legacy join table item (should not be created anymore, but handle for backwards compatibility)
         handle_legacy_join_table_item(item, item_year, item_month, item_day, event_name)
     else:
-        handle_regular_entity_item(item, entity_type, item_year, item_month, item_day, event_name)
+        partition_path = get_partition_path(item, entity_type, current_date)
+        handle_regular_entity_item(item, entity_type, partition_path, event_name)
+        
+        # An update of a partition field moves the row, so drop its file in the old partition
+        old_image = record.get('dynamodb', {}).get('OldImage')
+        if event_name == 'MODIFY' and old_image:
+            old_partition_path = get_partition_path(unmarshall_dynamodb_item(old_image), entity_type, current_date)
+            if old_partition_path != partition_path:
+                old_s3_key = f"tables/{entity_type}/{old_partition_path}/{item['id']}.parquet"
+                logger.info(f"Moving entity S3 object from {old_s3_key}")
+                delete_data_file(old_s3_key)
 
 def handle_join_table_data_item(item, year, month, day, event_name):
     """Handle join table data items using relationId as filename"""
@@ -832,7 +1879,7 @@ def handle_join_table_data_item(item, year, month, day, event_name):
     
     # Convert to DataFrame and write as Parquet
     df = create_dataframe_from_item(item, join_table_name=join_table)
-    write_parquet_to_s3(df, s3_key)
+    write_data_file(df, s3_key)
     
     
     # Delete the temporary joinTableData item after processing
@@ -876,12 +1923,12 @@ def handle_legacy_join_table_item(item, year, month, day, event_name):
     
     # Convert to DataFrame and write as Parquet
     df = create_dataframe_from_item(item, join_table_name=join_table)
-    write_parquet_to_s3(df, s3_key)
+    write_data_file(df, s3_key)
     
 
-def handle_regular_entity_item(item, entity_type, year, month, day, event_name):
-    """Handle regular entity items with date partitioning"""
-    s3_key = f"tables/{entity_type}/year={year}/month={month}/day={day}/{item['id']}.parquet"
+def handle_regular_entity_item(item, entity_type, partition_path, event_name):
+    """Handle regular entity items, partitioned as their type's @partition layout"""
+    s3_key = f"tables/{entity_type}/{partition_path}/{item['id']}.parquet"
     table_location = f"s3://{BUCKET_NAME}/tables/{entity_type}/"
     athena_table_name = entity_type
     
@@ -889,7 +1936,7 @@ def handle_regular_entity_item(item, entity_type, year, month, day, event_name):
     
     # Convert to DataFrame and write as Parquet
     df = create_dataframe_from_item(item, entity_type=entity_type)
-    write_parquet_to_s3(df, s3_key)
+    write_data_file(df, s3_key)
     
 
 def create_dataframe_from_item(item, entity_type=None, join_table_name=None):
@@ -987,8 +2034,26 @@ def is_iso_timestamp(value):
     except:
         return False
 
-def write_parquet_to_s3(df, s3_key):
-    """Write DataFrame as optimized Parquet to S3"""
+def write_data_file(df, s3_key):
+    """Write a row's data file, or its row in the bucket file if the partition is compacted"""
+    row_table = dataframe_to_arrow_table(df)
+    table_name, partition, row_key = parse_data_file_key(s3_key)
+    if not is_partition_compacted(get_partition_manifest(table_name, partition)):
+        write_parquet_to_s3(row_table, s3_key)
+        # A compaction that started meanwhile may have listed the partition before this write
+        if not is_partition_compacted(get_partition_manifest(table_name, partition)):
+            return
+    
+    with partition_lock(table_name, partition) as manifest:
+        if 'bucketCount' not in manifest:
+            # The compaction did not get far; the next run merges the data file
+            write_parquet_to_s3(row_table, s3_key)
+            return
+        rewrite_compacted_rows(table_name, partition, int(manifest['bucketCount']['N']), {row_key: row_table})
+        s3_client.delete_object(Bucket=BUCKET_NAME, Key=s3_key)
+
+def dataframe_to_arrow_table(df):
+    """Convert a single-row DataFrame to an Arrow table with minimal column types"""
     try:
         # Convert DataFrame to PyArrow table with minimal schema
         table = pa.Table.from_pandas(df, preserve_index=False)
@@ -1026,9 +2091,16 @@ def write_parquet_to_s3(df, s3_key):
             ultra_minimal_schema.append(minimal_field)
         
         # Create table with ultra-minimal schema
-        minimal_table = pa.table([table.column(i) for i in range(len(ultra_minimal_schema))], 
-                                schema=pa.schema(ultra_minimal_schema))
+        return pa.table([table.column(i) for i in range(len(ultra_minimal_schema))], 
+                        schema=pa.schema(ultra_minimal_schema))
         
+    except Exception as e:
+        logger.error(f"Error converting DataFrame to Arrow: {str(e)}")
+        raise
+
+def write_parquet_to_s3(minimal_table, s3_key):
+    """Write a row table as optimized Parquet to S3"""
+    try:
         # Write optimized Parquet
         parquet_buffer = BytesIO()
         pq.write_table(
@@ -1146,6 +2218,23 @@ def format_date_parts(date_obj):
         date_obj.strftime('%d')
     )
 
+def get_partition_path(item, entity_type, default_date):
+    """Partition path of an entity item, e.g. tenantId=acme/year=2025/month=06/day=15"""
+    spec = PARTITION_SPECS.get(entity_type, DEFAULT_PARTITION_SPEC)
+    item_date = parse_item_date(item.get(spec['time']) or item.get('createdAt'), default_date)
+    if item_date.tzinfo:
+        item_date = item_date.astimezone(timezone.utc)
+    
+    segments = [f"{field}={item.get(field)}" for field in spec['by']]
+    segments.append(f"year={item_date:%Y}")
+    if spec['granularity'] in ('MONTH', 'DAY', 'HOUR'):
+        segments.append(f"month={item_date:%m}")
+    if spec['granularity'] in ('DAY', 'HOUR'):
+        segments.append(f"day={item_date:%d}")
+    if spec['granularity'] == 'HOUR':
+        segments.append(f"hour={item_date:%H}")
+    return '/'.join(segments)
+
 def send_cascade_deletion_message(entity_type, entity_id):
     """Send message to SQS queue for cascade deletion of join relations"""
     if not CASCADE_DELETION_QUEUE_URL:
@@ -1171,119 +2260,471 @@ def send_cascade_deletion_message(entity_type, entity_id):
     }
   }
 
-  private generateProcessedSchema(): string {
-    // Remove custom directives and add CRUD operations
-    let processedSchema = this.schemaMetadata.types
-      .filter((type) => !type.isPrimitive)
-      .map((type) => this.generateTypeDefinition(type))
-      .join("\n\n");
-
-    // Add input types for CRUD operations
-    processedSchema += "\n\n" + this.generateInputTypes();
-
-    // Add root types
-    processedSchema += "\n\n" + this.generateRootTypes();
-
-    // Add enums
-    if (this.schemaMetadata.enums.length > 0) {
-      processedSchema +=
-        "\n\n" +
-        this.schemaMetadata.enums
-          .map((enumName) => `enum ${enumName} { ${enumName}_VALUE }`)
-          .join("\n\n");
-    }
-
-    return processedSchema;
-  }
-
-  private generateInputTypes(): string {
-    const inputTypes: string[] = [];
+  /**
+   * Iceberg tables keyed for the stream processor's MERGE statements
+   * Entities merge on id, join tables on the deterministic relationId
+   */
+  private getIcebergTables(): Record<
+    string,
+    { key: string; columns: Record<string, string> }
+  > {
+    const tables: Record<
+      string,
+      { key: string; columns: Record<string, string> }
+    > = {};
+    const toColumnTypes = (columns: { name: string; type: string }[]) =>
+      Object.fromEntries(columns.map((column) => [column.name, column.type]));
 
-    // Generate CreateXInput type
     for (const type of this.schemaMetadata.types) {
       if (!type.isPrimitive && !type.isTaskResponse) {
-        const createFields = type.fields
-          .filter(
-            (field) =>
-              !field.sqlQuery &&
-              field.name !== "id" &&
-              field.name !== "createdAt" &&
-              field.name !== "updatedAt" &&
-              this.isScalarType(field.type) // Only include scalar types
-          )
-          .map((field) => {
-            const fieldType = field.isList ? `[${field.type}!]` : field.type;
-            const isRequired = field.isRequired ? "!" : "";
-            return `  ${field.name}: ${fieldType}${isRequired}`;
-          })
-          .join("\n");
-
-        if (createFields) {
-          inputTypes.push(
-            `input Create${type.name}Input {\n${createFields}\n}`
-          );
-        }
-
-        // Generate UpdateXInput type (all fields optional)
-        const updateFields = type.fields
-          .filter(
-            (field) =>
-              !field.sqlQuery &&
-              field.name !== "id" &&
-              field.name !== "createdAt" &&
-              field.name !== "updatedAt" &&
-              this.isScalarType(field.type) // Only include scalar types
-          )
-          .map((field) => {
-            const fieldType = field.isList ? `[${field.type}!]` : field.type;
-            return `  ${field.name}: ${fieldType}`;
-          })
-          .join("\n");
-
-        if (updateFields) {
-          inputTypes.push(
-            `input Update${type.name}Input {\n${updateFields}\n}`
-          );
-        }
+        tables[type.name.toLowerCase()] = {
+          key: "id",
+          columns: toColumnTypes(getEntityTableColumns(type)),
+        };
       }
     }
-
-    return inputTypes.join("\n\n");
+    for (const joinTable of this.schemaMetadata.joinTables) {
+      tables[joinTable.toLowerCase()] = {
+        key: "relationId",
+        columns: toColumnTypes(
+          getJoinTableColumns(joinTable, this.schemaMetadata)
+        ),
+      };
+    }
+    return tables;
   }
 
-  private isScalarType(type: string): boolean {
-    const scalarTypes = [
-      "String",
-      "Int",
-      "Float",
-      "Boolean",
-      "ID",
-      "AWSDateTime",
-    ];
-    return scalarTypes.includes(type);
-  }
+  /**
+   * DynamoDB stream processor for --table-format iceberg
+   * Collapses each batch to the last change per row and applies it with one
+   * Athena MERGE per table, so rows are upserted and deleted in place
+   */
+  private generateIcebergStreamProcessor(): string {
+    return `
+import json
+import math
+import os
+import time
+import boto3
+from datetime import datetime, timezone
+import logging
 
-  private generateTypeDefinition(type: TypeMetadata): string {
-    // For regular types, include only scalar fields (no @sql_query on type fields)
-    const fields = type.fields
-      .filter((field) => {
-        // Include only scalar types (no @sql_query on type fields)
-        return this.isScalarType(field.type);
-      })
-      .map((field) => {
-        let fieldType = field.type;
+# Configure logging
+logger = logging.getLogger()
+logger.setLevel(logging.INFO)
 
-        // Handle list types
-        if (field.isList) {
-          fieldType = `[${fieldType}!]`;
-        }
+# Initialize AWS clients
+athena_client = boto3.client('athena')
+sqs_client = boto3.client('sqs')
+dynamodb_client = boto3.client('dynamodb')
 
-        // Handle required types
-        if (field.isRequired) {
-          fieldType = `${fieldType}!`;
-        }
+DATABASE_NAME = os.environ['ATHENA_DATABASE_NAME']
+ATHENA_OUTPUT_LOCATION = os.environ['ATHENA_OUTPUT_LOCATION']
+TABLE_NAME = os.environ['DYNAMODB_TABLE_NAME']
+CASCADE_DELETION_QUEUE_URL = os.environ.get('CASCADE_DELETION_QUEUE_URL')
 
-        // Include arguments if field has them
+# Iceberg tables: merge key and Athena column types
+ICEBERG_TABLES = ${JSON.stringify(this.getIcebergTables(), null, 2)}
+
+# Athena rejects query strings over 256 KB
+MAX_STATEMENT_LENGTH = 200000
+# Concurrent commits to a table fail with ICEBERG_COMMIT_ERROR and are retried
+MAX_COMMIT_ATTEMPTS = 5
+
+def lambda_handler(event, context):
+    """Merge a batch of DynamoDB stream records into the Iceberg tables"""
+    changes = {}
+    deleted_entities = []
+    merged_join_items = []
+    
+    for record in event['Records']:
+        try:
+            collect_change(record, changes, deleted_entities, merged_join_items)
+        except Exception as e:
+            logger.error(f"Error processing record: {str(e)}")
+            # Continue processing other records
+    
+    # A failed MERGE fails the batch; the stream retries it, and re-applying
+    # the same changes by key leaves the tables unchanged
+    for table_name, rows in changes.items():
+        merge_rows(table_name, rows)
+    
+    for entity_type, entity_id in deleted_entities:
+        send_cascade_deletion_message(entity_type, entity_id)
+    
+    for key in merged_join_items:
+        delete_join_table_data_item(key)
+    
+    return {'statusCode': 200, 'body': 'Stream processing completed'}
+
+def collect_change(record, changes, deleted_entities, merged_join_items):
+    """Record the row change of a stream record; later changes to a row replace earlier ones"""
+    event_name = record['eventName']  # INSERT, MODIFY, REMOVE
+    image = record.get('dynamodb', {}).get('OldImage' if event_name == 'REMOVE' else 'NewImage')
+    if not image:
+        return
+    
+    item = unmarshall_dynamodb_item(image)
+    entity_type = item.get('entityType')
+    
+    # Task and joinRelation items are metadata only
+    if not entity_type or entity_type in ('task', 'joinRelation'):
+        return
+    
+    is_join_table_data = item.get('PK', '').startswith('joinTableData#')
+    if event_name == 'REMOVE':
+        # joinTableData items are removed once merged; join rows are deleted by
+        # the cascade deletion listener or a DELETE task
+        if is_join_table_data:
+            return
+        table_name = entity_type.lower()
+    elif is_join_table_data:
+        table_name = (item.get('joinTableName') or item.get('joinTable') or '').lower()
+        merged_join_items.append({'PK': item['PK'], 'SK': item['SK']})
+    elif item.get('joinTable'):
+        logger.warning(f"Skipping legacy join table item (not supported with Iceberg tables): {item.get('PK')}")
+        return
+    else:
+        table_name = entity_type.lower()
+    
+    table = ICEBERG_TABLES.get(table_name)
+    if not table:
+        logger.info(f"Skipping item without an Iceberg table: {item.get('PK')}")
+        return
+    
+    key = item.get(table['key'])
+    if key is None:
+        logger.warning(f"Item missing merge key '{table['key']}': {item.get('PK')}")
+        return
+    
+    if event_name == 'REMOVE':
+        changes.setdefault(table_name, {})[str(key)] = ('delete', item)
+        deleted_entities.append((entity_type, key))
+    else:
+        changes.setdefault(table_name, {})[str(key)] = ('upsert', item)
+
+def merge_rows(table_name, rows):
+    """MERGE the collected rows into a table, in statements below Athena's size limit"""
+    table = ICEBERG_TABLES[table_name]
+    columns = list(table['columns'].keys())
+    values = []
+    length = 0
+    
+    for operation, item in rows.values():
+        row = '(' + ', '.join(
+            [sql_string(operation)] + [sql_literal(item.get(column), table['columns'][column]) for column in columns]
+        ) + ')'
+        if values and length + len(row) > MAX_STATEMENT_LENGTH:
+            run_statement(build_merge_statement(table_name, table['key'], columns, values))
+            values = []
+            length = 0
+        values.append(row)
+        length += len(row) + 2
+    
+    if values:
+        run_statement(build_merge_statement(table_name, table['key'], columns, values))
+    logger.info(f"Merged {len(rows)} changes into Iceberg table '{table_name}'")
+
+def build_merge_statement(table_name, key, columns, values):
+    """Upsert or delete each VALUES row by the table's merge key"""
+    column_list = ', '.join(quote_identifier(column) for column in columns)
+    source_list = ', '.join('s.' + quote_identifier(column) for column in columns)
+    updates = ', '.join(
+        f"{quote_identifier(column)} = s.{quote_identifier(column)}" for column in columns if column != key
+    )
+    return (
+        f"MERGE INTO {quote_identifier(table_name)} t "
+        f"USING (VALUES {', '.join(values)}) AS s({quote_identifier('_op')}, {column_list}) "
+        f"ON t.{quote_identifier(key)} = s.{quote_identifier(key)} "
+        f"WHEN MATCHED AND s.{quote_identifier('_op')} = 'delete' THEN DELETE "
+        f"WHEN MATCHED THEN UPDATE SET {updates} "
+        f"WHEN NOT MATCHED AND s.{quote_identifier('_op')} = 'upsert' THEN INSERT ({column_list}) VALUES ({source_list})"
+    )
+
+def quote_identifier(name):
+    return '"' + name.replace('"', '""') + '"'
+
+def sql_string(value):
+    return "'" + str(value).replace("'", "''") + "'"
+
+def sql_literal(value, column_type):
+    """Typed SQL literal, so every VALUES row has the table's column types"""
+    # Glue's string columns are varchar in Athena DML
+    null = f"CAST(NULL AS {'varchar' if column_type == 'string' else column_type})"
+    if value is None:
+        return null
+    
+    if column_type == 'timestamp':
+        timestamp = parse_timestamp(value)
+        if timestamp is None:
+            return null
+        return f"TIMESTAMP '{timestamp.strftime('%Y-%m-%d %H:%M:%S.%f')}'"
+    
+    if column_type == 'boolean':
+        return 'true' if value is True or str(value).lower() == 'true' else 'false'
+    
+    if column_type == 'bigint':
+        try:
+            return f"CAST({int(value)} AS bigint)"
+        except (TypeError, ValueError):
+            return null
+    
+    if column_type == 'double':
+        try:
+            number = float(value)
+        except (TypeError, ValueError):
+            return null
+        return f"CAST({repr(number)} AS double)" if math.isfinite(number) else null
+    
+    # Strings; lists and maps are stored as JSON
+    if isinstance(value, (list, dict)):
+        return sql_string(json.dumps(value))
+    if isinstance(value, bool):
+        return sql_string('true' if value else 'false')
+    return sql_string(value)
+
+def parse_timestamp(value):
+    """Parse an ISO 8601 timestamp into a naive UTC datetime"""
+    try:
+        timestamp = datetime.fromisoformat(str(value).replace('Z', '+00:00'))
+    except ValueError:
+        return None
+    if timestamp.tzinfo is not None:
+        timestamp = timestamp.astimezone(timezone.utc).replace(tzinfo=None)
+    return timestamp
+
+def run_statement(sql):
+    """Run an Athena statement and wait for it, retrying Iceberg commit conflicts"""
+    for attempt in range(1, MAX_COMMIT_ATTEMPTS + 1):
+        execution_id = athena_client.start_query_execution(
+            QueryString=sql,
+            QueryExecutionContext={'Database': DATABASE_NAME},
+            ResultConfiguration={'OutputLocation': ATHENA_OUTPUT_LOCATION}
+        )['QueryExecutionId']
+        
+        while True:
+            status = athena_client.get_query_execution(QueryExecutionId=execution_id)['QueryExecution']['Status']
+            if status['State'] not in ('QUEUED', 'RUNNING'):
+                break
+            time.sleep(1)
+        
+        if status['State'] == 'SUCCEEDED':
+            return
+        
+        reason = status.get('StateChangeReason', '')
+        if 'ICEBERG_COMMIT_ERROR' in reason and attempt < MAX_COMMIT_ATTEMPTS:
+            logger.warning(f"Iceberg commit conflict on {execution_id}, retrying (attempt {attempt})")
+            time.sleep(attempt * 2)
+            continue
+        raise Exception(f"Athena statement {execution_id} {status['State']}: {reason}")
+
+def delete_join_table_data_item(key):
+    """Delete a temporary joinTableData item once its row is merged"""
+    try:
+        dynamodb_client.delete_item(
+            TableName=TABLE_NAME,
+            Key={'PK': {'S': key['PK']}, 'SK': {'S': key['SK']}},
+            ConditionExpression='attribute_exists(PK)'
+        )
+        logger.info(f"Successfully deleted temporary joinTableData item: {key['PK']}")
+    except dynamodb_client.exceptions.ConditionalCheckFailedException:
+        logger.info(f"joinTableData item {key['PK']} was already deleted, skipping")
+    except Exception as e:
+        # The row is already merged; a leftover item is merged again harmlessly
+        logger.error(f"Error deleting temporary joinTableData item {key['PK']}: {e}")
+
+def unmarshall_dynamodb_item(dynamodb_item):
+    """Convert DynamoDB item format to regular Python dict"""
+    return {key: unmarshall_value(value) for key, value in dynamodb_item.items()}
+
+def unmarshall_value(value):
+    """Unmarshall a single DynamoDB value"""
+    if 'S' in value:
+        return value['S']
+    elif 'N' in value:
+        return float(value['N']) if '.' in value['N'] or 'e' in value['N'].lower() else int(value['N'])
+    elif 'BOOL' in value:
+        return value['BOOL']
+    elif 'L' in value:
+        return [unmarshall_value(v) for v in value['L']]
+    elif 'M' in value:
+        return {k: unmarshall_value(v) for k, v in value['M'].items()}
+    elif 'SS' in value:
+        return list(value['SS'])
+    elif 'NS' in value:
+        return [unmarshall_value({'N': n}) for n in value['NS']]
+    elif 'NULL' in value:
+        return None
+    else:
+        return str(value)
+
+def send_cascade_deletion_message(entity_type, entity_id):
+    """Send message to SQS queue for cascade deletion of join relations"""
+    if not CASCADE_DELETION_QUEUE_URL:
+        logger.warning("CASCADE_DELETION_QUEUE_URL not set, skipping cascade deletion")
+        return
+    
+    try:
+        message = {
+            'entityType': entity_type,
+            'entityId': entity_id,
+            'timestamp': datetime.utcnow().isoformat()
+        }
+        
+        sqs_client.send_message(
+            QueueUrl=CASCADE_DELETION_QUEUE_URL,
+            MessageBody=json.dumps(message)
+        )
+        
+        logger.info(f"Sent cascade deletion message for {entity_type}#{entity_id}")
+    except Exception as e:
+        logger.error(f"Error sending cascade deletion message: {str(e)}")
+`;
+  }
+
+  private generateProcessedSchema(): string {
+    // Remove custom directives and add CRUD operations
+    let processedSchema = this.schemaMetadata.types
+      .filter((type) => !type.isPrimitive)
+      .map((type) => this.generateTypeDefinition(type))
+      .join("\n\n");
+
+    // Add input types for CRUD operations
+    processedSchema += "\n\n" + this.generateInputTypes();
+
+    // Add root types
+    processedSchema += "\n\n" + this.generateRootTypes();
+
+    // Add enums
+    if (this.schemaMetadata.enums.length > 0) {
+      processedSchema +=
+        "\n\n" +
+        this.schemaMetadata.enums
+          .map(
+            (enumType) =>
+              `enum ${enumType.name} {\n${enumType.values.map((value) => `  ${value}`).join("\n")}\n}`
+          )
+          .join("\n\n");
+    }
+
+    // Allow every configured auth mode on every object type. IAM is only
+    // added for the execution tracker, which returns TaskCompletion from
+    // notifyTaskCompleted, so it stays off the rest of the API.
+    const authDirectives = getAuthDirectives(this.authConfig);
+    const taskCompletionDirectives = getAuthDirectives(
+      withAuthMode(this.authConfig, "AWS_IAM")
+    );
+    processedSchema = processedSchema.replace(
+      /^type (\w+) \{/gm,
+      (match, typeName: string) => {
+        const directives =
+          typeName === "TaskCompletion"
+            ? taskCompletionDirectives
+            : authDirectives;
+        return directives.length > 0
+          ? `type ${typeName} ${directives.join(" ")} {`
+          : match;
+      }
+    );
+
+    return processedSchema;
+  }
+
+  private generateInputTypes(): string {
+    const inputTypes: string[] = [];
+
+    // Generate CreateXInput type
+    for (const type of this.schemaMetadata.types) {
+      if (!type.isPrimitive && !type.isTaskResponse) {
+        const createFields = type.fields
+          .filter(
+            (field) =>
+              !field.sqlQuery &&
+              field.name !== "id" &&
+              field.name !== "createdAt" &&
+              field.name !== "updatedAt" &&
+              field.name !== this.getOwnerField(type) && // Set from the caller identity
+              this.isScalarType(field.type) // Only include scalar types
+          )
+          .map((field) => {
+            const fieldType = field.isList ? `[${field.type}!]` : field.type;
+            const isRequired = field.isRequired ? "!" : "";
+            return `  ${field.name}: ${fieldType}${isRequired}`;
+          })
+          .join("\n");
+
+        if (createFields) {
+          inputTypes.push(
+            `input Create${type.name}Input {\n${createFields}\n}`
+          );
+        }
+
+        // Generate UpdateXInput type (all fields optional)
+        const updateFields = type.fields
+          .filter(
+            (field) =>
+              !field.sqlQuery &&
+              field.name !== "id" &&
+              field.name !== "createdAt" &&
+              field.name !== "updatedAt" &&
+              field.name !== this.getOwnerField(type) && // Set from the caller identity
+              this.isScalarType(field.type) // Only include scalar types
+          )
+          .map((field) => {
+            const fieldType = field.isList ? `[${field.type}!]` : field.type;
+            return `  ${field.name}: ${fieldType}`;
+          })
+          .join("\n");
+
+        if (updateFields) {
+          inputTypes.push(
+            `input Update${type.name}Input {\n${updateFields}\n}`
+          );
+        }
+      }
+    }
+
+    return inputTypes.join("\n\n");
+  }
+
+  private isScalarType(type: string): boolean {
+    const scalarTypes = [
+      "String",
+      "Int",
+      "Float",
+      "Boolean",
+      "ID",
+      "AWSDateTime",
+    ];
+    // Enum values are plain strings, so enum fields are stored like scalars
+    return scalarTypes.includes(type) || this.isEnumType(type);
+  }
+
+  private isEnumType(type: string): boolean {
+    return this.schemaMetadata.enums.some((enumType) => enumType.name === type);
+  }
+
+  private generateTypeDefinition(type: TypeMetadata): string {
+    // For regular types, include only scalar fields (no @sql_query on type fields)
+    const fields = type.fields
+      .filter((field) => {
+        // Include only scalar types (no @sql_query on type fields)
+        return this.isScalarType(field.type);
+      })
+      .map((field) => {
+        let fieldType = field.type;
+
+        // Handle list types
+        if (field.isList) {
+          fieldType = `[${fieldType}!]`;
+        }
+
+        // Handle required types
+        if (field.isRequired) {
+          fieldType = `${fieldType}!`;
+        }
+
+        // Include arguments if field has them
         const args = this.generateFieldArguments(field);
         return `  ${field.name}${args}: ${fieldType}`;
       })
@@ -1292,17 +2733,37 @@ def send_cascade_deletion_message(entity_type, entity_id):
     return `type ${type.name} {\n${fields}\n}`;
   }
 
+  /**
+   * GraphQL argument definition, e.g. "days: Int = 7"
+   */
+  private formatArgument(arg: ArgumentMetadata): string {
+    const argType = arg.isList ? `[${arg.type}!]` : arg.type;
+    const required = arg.isRequired ? "!" : "";
+    const defaultValue =
+      arg.defaultValue !== undefined ? ` = ${arg.defaultValue}` : "";
+    return `${arg.name}: ${argType}${required}${defaultValue}`;
+  }
+
+  /**
+   * Default values of a field's arguments, keyed by argument name
+   */
+  private getArgumentDefaults(field: FieldMetadata): Record<string, unknown> {
+    const defaults: Record<string, unknown> = {};
+    for (const arg of field.arguments || []) {
+      if (arg.defaultValue !== undefined) {
+        defaults[arg.name] = valueFromASTUntyped(parseValue(arg.defaultValue));
+      }
+    }
+    return defaults;
+  }
+
   private generateFieldArguments(field: FieldMetadata): string {
     if (!field.arguments || field.arguments.length === 0) {
       return "";
     }
 
     const args = field.arguments
-      .map((arg) => {
-        const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-        const required = arg.isRequired ? "!" : "";
-        return `${arg.name}: ${argType}${required}`;
-      })
+      .map((arg) => this.formatArgument(arg))
       .join(", ");
 
     return `(${args})`;
@@ -1311,9 +2772,30 @@ def send_cascade_deletion_message(entity_type, entity_id):
   private generateRootTypes(): string {
     const crudQueries = this.schemaMetadata.types
       .filter((type) => !type.isPrimitive && !type.isTaskResponse)
-      .map((type) => `  read${type.name}(id: ID!): ${type.name}`)
+      .flatMap((type) => [
+        `  read${type.name}(id: ID!): ${type.name}`,
+        `  list${type.name}(limit: Int, nextToken: String): ${type.name}Connection!`,
+      ])
       .join("\n");
 
+    const connectionTypes = this.schemaMetadata.types
+      .filter((type) => !type.isPrimitive && !type.isTaskResponse)
+      .map(
+        (type) =>
+          `type ${type.name}Connection {\n  items: [${type.name}!]!\n  nextToken: String\n}`
+      )
+      .join("\n\n");
+
+    // Failure reason and cost statistics shared by all task result types
+    // Scanned bytes can exceed GraphQL's 32-bit Int
+    const executionDetailFields = [
+      "  errorMessage: String",
+      "  errorCategory: String",
+      "  dataScannedBytes: Float",
+      "  engineExecutionTimeMs: Int",
+      "  queuedTimeMs: Int",
+    ].join("\n");
+
     const crudMutations = this.schemaMetadata.types
       .filter((type) => !type.isPrimitive && !type.isTaskResponse)
       .flatMap((type) => [
@@ -1325,7 +2807,17 @@ def send_cascade_deletion_message(entity_type, entity_id):
 
     // Original Query fields are not included - they are replaced by triggerTask mutations and taskResult queries
     // All Query fields are automatically tasks, so users must use triggerTask... and taskResult... APIs
-    const customQueries = "";
+    // SYNC queries keep their name and return the task result type directly
+    const customQueries = this.schemaMetadata.queries
+      .filter((q) => q.isTask && q.sqlQuery?.mode === "SYNC")
+      .map((q) => {
+        const args = q.arguments
+          ? q.arguments.map((arg) => this.formatArgument(arg)).join(", ")
+          : "";
+        const argsString = args ? `(${args})` : "";
+        return `  ${q.name}${argsString}: TaskResult${this.capitalizeFirst(q.name)}!`;
+      })
+      .join("\n");
 
     // Generate custom mutations with their arguments
     // Exclude DELETE mutations - they are handled as triggerTask mutations
@@ -1336,13 +2828,7 @@ def send_cascade_deletion_message(entity_type, entity_id):
       })
       .map((m) => {
         const args = m.arguments
-          ? m.arguments
-              .map((arg) => {
-                const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-                const required = arg.isRequired ? "!" : "";
-                return `${arg.name}: ${argType}${required}`;
-              })
-              .join(", ")
+          ? m.arguments.map((arg) => this.formatArgument(arg)).join(", ")
           : "";
         const argsString = args ? `(${args})` : "";
 
@@ -1366,16 +2852,9 @@ def send_cascade_deletion_message(entity_type, entity_id):
       .filter((q) => q.isTask && q.sqlQuery)
       .map((q) => {
         const args = q.arguments
-          ? q.arguments
-              .map((arg) => {
-                const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-                const required = arg.isRequired ? "!" : "";
-                return `${arg.name}: ${argType}${required}`;
-              })
-              .join(", ")
+          ? q.arguments.map((arg) => this.formatArgument(arg)).join(", ")
           : "";
-        const argsString = args ? `(${args})` : "";
-        return `  triggerTask${this.capitalizeFirst(q.name)}${argsString}: TaskTriggerResult!`;
+        return `  triggerTask${this.capitalizeFirst(q.name)}(${args ? `${args}, ` : ""}callbackUrl: AWSURL): TaskTriggerResult!`;
       })
       .join("\n");
 
@@ -1384,7 +2863,7 @@ def send_cascade_deletion_message(entity_type, entity_id):
       .filter((q) => q.isTask && q.sqlQuery)
       .map((q) => {
         const returnType = q.isList ? `[${q.type}!]` : q.type;
-        return `  taskResult${this.capitalizeFirst(q.name)}(taskId: ID!): TaskResult${this.capitalizeFirst(q.name)}!`;
+        return `  taskResult${this.capitalizeFirst(q.name)}(taskId: ID!, limit: Int, nextToken: String): TaskResult${this.capitalizeFirst(q.name)}!`;
       })
       .join("\n");
 
@@ -1396,16 +2875,9 @@ def send_cascade_deletion_message(entity_type, entity_id):
       })
       .map((m) => {
         const args = m.arguments
-          ? m.arguments
-              .map((arg) => {
-                const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-                const required = arg.isRequired ? "!" : "";
-                return `${arg.name}: ${argType}${required}`;
-              })
-              .join(", ")
+          ? m.arguments.map((arg) => this.formatArgument(arg)).join(", ")
           : "";
-        const argsString = args ? `(${args})` : "";
-        return `  triggerTask${this.capitalizeFirst(m.name)}${argsString}: TaskTriggerResult!`;
+        return `  triggerTask${this.capitalizeFirst(m.name)}(${args ? `${args}, ` : ""}callbackUrl: AWSURL): TaskTriggerResult!`;
       })
       .join("\n");
 
@@ -1419,11 +2891,54 @@ def send_cascade_deletion_message(entity_type, entity_id):
       })
       .join("\n");
 
+    // Listing and cancellation cover every task, whichever field started it
+    const taskManagementQueries = this.hasTasks()
+      ? "  listTasks(status: TaskStatus, queryName: String, limit: Int, nextToken: String): TaskInfoConnection!"
+      : "";
+    const taskManagementMutations = this.hasTasks()
+      ? [
+          "  cancelTask(taskId: ID!): TaskInfo!",
+          "  notifyTaskCompleted(input: TaskCompletionInput!): TaskCompletion @aws_iam",
+        ].join("\n")
+      : "";
+
+    // Live CRUD changes; optional arguments filter on the item's key fields
+    const entitySubscriptions = this.schemaMetadata.types
+      .filter((type) => !type.isPrimitive && !type.isTaskResponse)
+      .flatMap((type) => {
+        const filterArgs = this.getSubscriptionFilterFields(type)
+          .map((field) => `${field.name}: ${field.type}`)
+          .join(", ");
+        const argsString = filterArgs ? `(${filterArgs})` : "";
+        return [
+          `  onCreate${type.name}${argsString}: ${type.name} @aws_subscribe(mutations: ["create${type.name}"])`,
+          `  onUpdate${type.name}${argsString}: ${type.name} @aws_subscribe(mutations: ["update${type.name}"])`,
+          `  onDelete${type.name}(id: ID): DeleteResult @aws_subscribe(mutations: ["delete${type.name}"])`,
+        ];
+      });
+
+    // Completion pushes, published by the execution tracker through notifyTaskCompleted
+    const taskSubscriptions = this.hasTasks()
+      ? [
+          '  onTaskCompleted(taskId: ID!): TaskCompletion @aws_subscribe(mutations: ["notifyTaskCompleted"])',
+          ...this.schemaMetadata.queries
+            .filter((q) => q.isTask && q.sqlQuery)
+            .map(
+              (q) =>
+                `  onTask${this.capitalizeFirst(q.name)}Completed(taskId: ID): TaskCompletion @aws_subscribe(mutations: ["notifyTaskCompleted"])`
+            ),
+        ]
+      : [];
+
+    const subscriptions = [...entitySubscriptions, ...taskSubscriptions];
+
     return `
 type Query {
 ${crudQueries}
+${customQueries}
 ${taskResultQueries}
 ${deletionTaskResultQueries}
+${taskManagementQueries}
 }
 
 type Mutation {
@@ -1431,13 +2946,24 @@ ${crudMutations}
 ${customMutations}
 ${taskMutations}
 ${deletionTaskMutations}
+${taskManagementMutations}
+}
+${
+  subscriptions.length > 0
+    ? `
+type Subscription {
+${subscriptions.join("\n")}
+}
+`
+    : ""
 }
-
 type DeleteResult {
   id: ID!
   deleted: Boolean!
 }
 
+${connectionTypes}
+
 type TaskTriggerResult {
   taskId: ID!
 }
@@ -1446,24 +2972,74 @@ enum TaskStatus {
   RUNNING
   SUCCEEDED
   FAILED
+  CANCELLED
 }
-
-type DeletionTaskResult {
+${
+  this.hasTasks()
+    ? `
+type TaskInfo {
+  taskId: ID!
+  queryName: String
+  taskType: String
   taskStatus: TaskStatus!
   startDate: AWSDateTime!
   finishDate: AWSDateTime
+${executionDetailFields}
 }
 
-${this.schemaMetadata.queries
-  .filter((q) => q.isTask && q.sqlQuery)
-  .map((q) => {
+type TaskInfoConnection {
+  items: [TaskInfo!]!
+  nextToken: String
+}
+
+type TaskCompletion {
+  taskId: ID!
+  queryName: String
+  taskType: String
+  ownerId: String
+  taskStatus: TaskStatus!
+  startDate: AWSDateTime
+  finishDate: AWSDateTime
+  result: AWSJSON
+  nextToken: String
+${executionDetailFields}
+}
+
+input TaskCompletionInput {
+  taskId: ID!
+  queryName: String
+  taskType: String
+  ownerId: String
+  taskStatus: TaskStatus!
+  startDate: AWSDateTime
+  finishDate: AWSDateTime
+  result: AWSJSON
+  nextToken: String
+${executionDetailFields}
+}
+`
+    : ""
+}
+type DeletionTaskResult {
+  taskStatus: TaskStatus!
+  startDate: AWSDateTime!
+  finishDate: AWSDateTime
+${executionDetailFields}
+}
+
+${this.schemaMetadata.queries
+  .filter((q) => q.isTask && q.sqlQuery)
+  .map((q) => {
     const returnType = q.isList ? `[${q.type}!]` : q.type;
     return `
 type TaskResult${this.capitalizeFirst(q.name)} {
+  taskId: ID!
   taskStatus: TaskStatus!
   result: ${returnType}
+  nextToken: String
   startDate: AWSDateTime!
   finishDate: AWSDateTime
+${executionDetailFields}
 }`;
   })
   .join("\n")}
@@ -1492,12 +3068,14 @@ type TaskResult${this.capitalizeFirst(q.name)} {
   }
 
   /**
-   * Transform DELETE query to SELECT s3Key and relationId query
+   * Split a DELETE query on a $join_table() into the deleted table's alias and
+   * the FROM clause with the $join_table() wrapper removed
    * DELETE queries must use $join_table() wrapper: "DELETE alias FROM $join_table(table_name) alias ..."
-   * Example: "DELETE ufp FROM $join_table(user_favorite_products) ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId;"
-   * Becomes: "SELECT ufp.s3Key, ufp.relationId FROM user_favorite_products ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId;"
    */
-  private transformDeleteToSelectS3Key(deleteQuery: string): string {
+  private parseJoinTableDelete(deleteQuery: string): {
+    alias: string;
+    fromClause: string;
+  } {
     // Remove trailing semicolon if present
     let query = deleteQuery.trim().replace(/;\s*$/, "");
 
@@ -1541,30 +3119,66 @@ type TaskResult${this.capitalizeFirst(q.name)} {
       throw new Error("Could not determine table alias for DELETE query");
     }
 
+    return { alias: actualAlias, fromClause: query };
+  }
+
+  /**
+   * Transform DELETE query to SELECT s3Key and relationId query
+   * Example: "DELETE ufp FROM $join_table(user_favorite_products) ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId;"
+   * Becomes: "SELECT ufp.s3Key, ufp.relationId FROM user_favorite_products ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId;"
+   */
+  private transformDeleteToSelectS3Key(deleteQuery: string): string {
+    const { alias, fromClause } = this.parseJoinTableDelete(deleteQuery);
+
     // Transform to SELECT s3Key and relationId query
-    const selectQuery = `SELECT ${actualAlias}.s3Key, ${actualAlias}.relationId FROM ${query}`;
+    return `SELECT ${alias}.s3Key, ${alias}.relationId FROM ${fromClause}`;
+  }
 
-    return selectQuery;
+  /**
+   * Transform DELETE query to an Athena DELETE on the Iceberg join table
+   * Example: "DELETE ufp FROM $join_table(user_favorite_products) ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId;"
+   * Becomes: "DELETE FROM user_favorite_products WHERE relationId IN (SELECT ufp.relationId FROM user_favorite_products ufp INNER JOIN products p ON ufp.productId = p.productId WHERE p.brandId = $args.brandId)"
+   */
+  private transformDeleteToIcebergDelete(deleteQuery: string): string {
+    const { alias, fromClause } = this.parseJoinTableDelete(deleteQuery);
+    const tableName = fromClause.match(/^(\w+)/)![1];
+
+    return `DELETE FROM ${tableName} WHERE relationId IN (SELECT ${alias}.relationId FROM ${fromClause})`;
+  }
+
+  /**
+   * Add partition key predicates to the time column predicates of a query
+   * Athena prunes Hive tables on their partition keys only; Iceberg tables
+   * prune on the time column itself and are left as they are
+   */
+  private withPartitionPredicates(query: string): string {
+    if (this.options.tableFormat === "iceberg") {
+      return query;
+    }
+    return addPartitionPredicates(
+      query,
+      getTablePartitionLayouts(this.schemaMetadata)
+    );
   }
 
   private generateTriggerDeletionTaskMutation(mutation: FieldMetadata): string {
     const mutationName = mutation.name;
     const capitalizedMutationName = this.capitalizeFirst(mutationName);
     const originalQuery = mutation.sqlQuery!.query;
-    const selectQuery = this.transformDeleteToSelectS3Key(originalQuery);
+    const isIceberg = this.options.tableFormat === "iceberg";
+    const deletionQuery = isIceberg
+      ? this.transformDeleteToIcebergDelete(originalQuery)
+      : this.withPartitionPredicates(
+          this.transformDeleteToSelectS3Key(originalQuery)
+        );
 
     // Build arguments string
     const argsString = mutation.arguments
-      ? mutation.arguments
-          .map((arg) => {
-            const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-            const required = arg.isRequired ? "!" : "";
-            return `${arg.name}: ${argType}${required}`;
-          })
-          .join(", ")
+      ? mutation.arguments.map((arg) => this.formatArgument(arg)).join(", ")
       : "";
 
     return `
+const crypto = require('crypto');
 const { AthenaClient, StartQueryExecutionCommand } = require('@aws-sdk/client-athena');
 const { DynamoDBClient, PutItemCommand } = require('@aws-sdk/client-dynamodb');
 const { marshall } = require('@aws-sdk/util-dynamodb');
@@ -1575,7 +3189,7 @@ const DATABASE_NAME = process.env.ATHENA_DATABASE_NAME;
 const S3_OUTPUT_LOCATION = process.env.ATHENA_OUTPUT_LOCATION;
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 
-// SQL injection prevention function
+// Format a value as a SQL literal (Athena execution parameters are SQL literals)
 function escapeSqlValue(value) {
   if (value === null || value === undefined) {
     return 'NULL';
@@ -1594,29 +3208,26 @@ function escapeSqlValue(value) {
   }
 }
 
+${this.generateTaskAuthHelpers(mutation, true)}${this.generateArgumentHashHelper()}${this.generateCallbackUrlHelper()}${this.generateSqlTemplateRenderer()}
+// ${isIceberg ? "DELETE query run as an Athena DELETE on the Iceberg join table" : "DELETE query transformed to SELECT s3Key query"}
+const SQL_TEMPLATE = ${JSON.stringify(compileSqlTemplate(deletionQuery))};
+const ARGUMENT_DEFAULTS = ${JSON.stringify(this.getArgumentDefaults(mutation))};
+
 exports.handler = async (event) => {
-  try {
+  try {${this.generateFieldAuthCheck(mutation)}
     console.log('Deletion task mutation event:', JSON.stringify(event, null, 2));
     const now = new Date().toISOString();
+    const callbackUrl = getCallbackUrl(event);${this.generateSqlTemplateValues(mutation)}
     
-    // Transform DELETE query to SELECT s3Key query
-    let sqlQuery = \`${selectQuery.replace(/\$/g, "\\$")}\`;
-    console.log('Transformed SELECT query:', sqlQuery);
-    
-    // Replace parameter placeholders
-    if (event.arguments) {
-      Object.entries(event.arguments).forEach(([key, value]) => {
-        const argsPattern = '$args.' + key;
-        const sqlSafeValue = escapeSqlValue(value);
-        sqlQuery = sqlQuery.split(argsPattern).join(sqlSafeValue);
-      });
-    }
-    
+    // Placeholders are bound as Athena execution parameters
+    const rendered = renderSqlTemplate(SQL_TEMPLATE, templateValues);
+    const sqlQuery = rendered.sql;
     console.log('Final SQL query:', sqlQuery);
     
     // Start Athena query execution
     const queryExecution = await athenaClient.send(new StartQueryExecutionCommand({
       QueryString: sqlQuery,
+      ExecutionParameters: rendered.parameters.length > 0 ? rendered.parameters : undefined,
       QueryExecutionContext: {
         Database: DATABASE_NAME
       },
@@ -1636,6 +3247,7 @@ exports.handler = async (event) => {
     }
     
     // Save task entity with taskType: "deletionTask"
+    const ownerId = getTaskOwner(event);
     const taskItem = {
       PK: \`task#\${executionId}\`,
       SK: \`task#\${executionId}\`,
@@ -1643,6 +3255,12 @@ exports.handler = async (event) => {
       taskId: executionId,
       taskType: 'deletionTask',
       mutationName: '${mutationName}',
+      queryName: '${mutationName}',
+      argumentHash: hashArguments(getTaskArguments(event)),
+      ...(ownerId ? { ownerId } : {}),
+      'GSI1-PK': getTaskListKey(ownerId),
+      'GSI1-SK': now,
+      ...(callbackUrl ? { callbackUrl } : {}),
       taskStatus: 'RUNNING',
       startDate: now,
       finishDate: null,
@@ -1677,8 +3295,10 @@ const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 
+${this.generateExecutionDetailsHelper()}${this.generateExecutionDetailFieldsHelper()}
+${this.generateTaskAuthHelpers(mutation)}
 exports.handler = async (event) => {
-  try {
+  try {${this.generateFieldAuthCheck(mutation)}
     const taskId = event.arguments.taskId;
     
     // Get task entity
@@ -1695,10 +3315,11 @@ exports.handler = async (event) => {
     }
     
     const task = unmarshall(taskResult.Item);
-    
+    ${this.generateTaskOwnershipCheck(mutation)}
     // Check execution status
     let taskStatus = 'RUNNING';
     let finishDate = null;
+    let details = task;
     
     try {
       const execResult = await athenaClient.send(new GetQueryExecutionCommand({
@@ -1707,6 +3328,7 @@ exports.handler = async (event) => {
       
       const athenaStatus = execResult.QueryExecution?.Status?.State || 'UNKNOWN';
       const statusChangeDateTime = execResult.QueryExecution?.Status?.StateChangeDateTime;
+      details = { ...task, ...getExecutionDetails(execResult.QueryExecution) };
       
       if (athenaStatus === 'RUNNING' || athenaStatus === 'QUEUED') {
         taskStatus = 'RUNNING';
@@ -1714,7 +3336,7 @@ exports.handler = async (event) => {
         taskStatus = 'SUCCEEDED';
         finishDate = statusChangeDateTime || new Date().toISOString();
       } else if (athenaStatus === 'FAILED' || athenaStatus === 'CANCELLED') {
-        taskStatus = 'FAILED';
+        taskStatus = athenaStatus;
         finishDate = statusChangeDateTime || new Date().toISOString();
       }
     } catch (error) {
@@ -1725,7 +3347,8 @@ exports.handler = async (event) => {
     return {
       taskStatus: taskStatus,
       startDate: task.startDate,
-      finishDate: finishDate
+      finishDate: finishDate,
+      ...toExecutionDetailFields(details)
     };
   } catch (error) {
     console.error('Error getting deletion task result:', error);
@@ -1747,24 +3370,13 @@ exports.handler = async (event) => {
   }
 
   private generateTriggerTaskMutation(query: FieldMetadata): string {
-    const queryName = query.name;
-    const capitalizedQueryName = this.capitalizeFirst(queryName);
-
-    // Build arguments string
-    const argsString = query.arguments
-      ? query.arguments
-          .map((arg) => {
-            const argType = arg.isList ? `[${arg.type}!]` : arg.type;
-            const required = arg.isRequired ? "!" : "";
-            return `${arg.name}: ${argType}${required}`;
-          })
-          .join(", ")
-      : "";
+    const cacheTtlSeconds = query.sqlQuery!.cacheTtlSeconds;
 
     return `
-const { DynamoDBClient, PutItemCommand } = require('@aws-sdk/client-dynamodb');
+const crypto = require('crypto');
+const { DynamoDBClient, ${cacheTtlSeconds ? "GetItemCommand, " : ""}PutItemCommand } = require('@aws-sdk/client-dynamodb');
 const { AthenaClient, StartQueryExecutionCommand } = require('@aws-sdk/client-athena');
-const { marshall } = require('@aws-sdk/util-dynamodb');
+const { marshall${cacheTtlSeconds ? ", unmarshall" : ""} } = require('@aws-sdk/util-dynamodb');
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
@@ -1772,7 +3384,29 @@ const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 const DATABASE_NAME = process.env.ATHENA_DATABASE_NAME;
 const S3_OUTPUT_LOCATION = process.env.ATHENA_OUTPUT_LOCATION;
 
-// SQL injection prevention function
+${this.generateStartTaskHelper(query)}
+exports.handler = async (event) => {
+  try {${this.generateFieldAuthCheck(query)}
+    const taskId = await startTask(event);
+    return { taskId };
+  } catch (error) {
+    console.error('Error triggering task:', error);
+    throw error;
+  }
+};
+`;
+  }
+
+  /**
+   * Render the query, start its Athena execution and save the task# item
+   * Exposed as startTask(event), which returns the task ID
+   */
+  private generateStartTaskHelper(query: FieldMetadata): string {
+    const queryName = query.name;
+    const cacheTtlSeconds = query.sqlQuery!.cacheTtlSeconds;
+
+    return `
+// Format a value as a SQL literal (Athena execution parameters are SQL literals)
 function escapeSqlValue(value) {
   if (value === null || value === undefined) {
     return 'NULL';
@@ -1791,65 +3425,167 @@ function escapeSqlValue(value) {
   }
 }
 
-exports.handler = async (event) => {
-  try {
-    const now = new Date().toISOString();
-    
-    // Prepare SQL query with parameter replacement
-    let sqlQuery = \`${query.sqlQuery!.query}\`;
-    
-    // Replace parameter placeholders
-    if (event.arguments) {
-      Object.entries(event.arguments).forEach(([key, value]) => {
-        const argsPattern = '$args.' + key;
-        const sqlSafeValue = escapeSqlValue(value);
-        sqlQuery = sqlQuery.split(argsPattern).join(sqlSafeValue);
-      });
+${this.generateTaskAuthHelpers(query, true)}${this.generateArgumentHashHelper()}${this.generateCallbackUrlHelper()}${this.generateSqlTemplateRenderer()}${cacheTtlSeconds ? this.generateTaskCacheHelper(cacheTtlSeconds) : ""}
+const SQL_TEMPLATE = ${JSON.stringify(compileSqlTemplate(this.withPartitionPredicates(query.sqlQuery!.query)))};
+const ARGUMENT_DEFAULTS = ${JSON.stringify(this.getArgumentDefaults(query))};
+
+async function startTask(event) {
+  const now = new Date().toISOString();
+  const callbackUrl = getCallbackUrl(event);${this.generateSqlTemplateValues(query, "  ")}
+  
+  // Placeholders are bound as Athena execution parameters
+  const rendered = renderSqlTemplate(SQL_TEMPLATE, templateValues);
+  let sqlQuery = rendered.sql;
+  
+  // Replace join table references
+  sqlQuery = sqlQuery.replace(/\\$join_table\\(([^)]+)\\)/g, '$1');
+  
+  const ownerId = getTaskOwner(event);${
+    cacheTtlSeconds
+      ? `
+  
+  // Reuse a succeeded or running task for the same SQL and principal
+  // A webhook needs a task of its own, which may not have finished yet
+  const cacheKey = getTaskCacheKey(sqlQuery, rendered.parameters, ownerId);
+  const cachedTaskId = callbackUrl ? null : await findCachedTask(cacheKey);
+  if (cachedTaskId) {
+    return cachedTaskId;
+  }`
+      : ""
+  }
+  
+  // Start Athena query execution
+  const queryExecution = await athenaClient.send(new StartQueryExecutionCommand({
+    QueryString: sqlQuery,
+    ExecutionParameters: rendered.parameters.length > 0 ? rendered.parameters : undefined,
+    QueryExecutionContext: {
+      Database: DATABASE_NAME
+    },
+    ResultConfiguration: {
+      OutputLocation: S3_OUTPUT_LOCATION
+    }${
+      cacheTtlSeconds
+        ? `,
+    // Let Athena reuse results of an identical query within the TTL as well
+    ResultReuseConfiguration: {
+      ResultReuseByAgeConfiguration: {
+        Enabled: true,
+        MaxAgeInMinutes: ${Math.max(1, Math.ceil(cacheTtlSeconds / 60))}
+      }
+    }`
+        : ""
     }
+  }));
+  
+  // Use execution ID as task ID (only one query per task)
+  const taskId = queryExecution.QueryExecutionId;
+  
+  if (!taskId) {
+    throw new Error('Failed to start Athena query execution: QueryExecutionId is missing');
+  }
+  
+  // Create task entity, owned by the calling principal
+  const taskItem = {
+    PK: \`task#\${taskId}\`,
+    SK: \`task#\${taskId}\`,
+    id: taskId,
+    entityType: 'task',
+    entityId: taskId,
+    taskType: 'queryTask',
+    queryName: '${queryName}',
+    argumentHash: hashArguments(getTaskArguments(event)),
+    ...(ownerId ? { ownerId } : {}),
+    'GSI1-PK': getTaskListKey(ownerId),
+    'GSI1-SK': now,
+    ...(callbackUrl ? { callbackUrl } : {}),
+    taskStatus: 'RUNNING',
+    startDate: now,
+    finishDate: null,
+    createdAt: now,
+    updatedAt: now
+  };
+  
+  await dynamoClient.send(new PutItemCommand({
+    TableName: TABLE_NAME,
+    Item: marshall(taskItem)
+  }));${
+    cacheTtlSeconds
+      ? `
+  await cacheTask(cacheKey, taskId);`
+      : ""
+  }
+  
+  return taskId;
+}
+`;
+  }
+
+  /**
+   * Direct Query field for @sql_query(mode: SYNC): starts the task, waits for
+   * Athena up to timeoutSeconds and returns the first page of typed rows.
+   * On timeout it returns the RUNNING task so clients can poll taskResult<Query>.
+   */
+  private generateSyncQueryFunction(query: FieldMetadata): string {
+    const cacheTtlSeconds = query.sqlQuery!.cacheTtlSeconds;
+    const timeoutSeconds = query.sqlQuery!.timeoutSeconds;
+
+    return `
+const crypto = require('crypto');
+const { DynamoDBClient, ${cacheTtlSeconds ? "GetItemCommand, " : ""}PutItemCommand } = require('@aws-sdk/client-dynamodb');
+const { AthenaClient, StartQueryExecutionCommand, GetQueryExecutionCommand, GetQueryResultsCommand } = require('@aws-sdk/client-athena');
+const { marshall${cacheTtlSeconds ? ", unmarshall" : ""} } = require('@aws-sdk/util-dynamodb');
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
+const DATABASE_NAME = process.env.ATHENA_DATABASE_NAME;
+const S3_OUTPUT_LOCATION = process.env.ATHENA_OUTPUT_LOCATION;
+
+const TIMEOUT_SECONDS = ${timeoutSeconds};
+const POLL_INTERVAL_MS = 1000;
+
+${this.generateStartTaskHelper(query)}${this.generateTaskResultReader(query)}${this.generateExecutionDetailsHelper()}${this.generateExecutionDetailFieldsHelper()}
+function toIsoDate(value) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+exports.handler = async (event) => {
+  try {${this.generateFieldAuthCheck(query)}
+    const deadline = Date.now() + TIMEOUT_SECONDS * 1000;
+    const taskId = await startTask(event);
     
-    // Replace join table references
-    sqlQuery = sqlQuery.replace(/\\$join_table\\(([^)]+)\\)/g, '$1');
-    
-    // Start Athena query execution
-    const queryExecution = await athenaClient.send(new StartQueryExecutionCommand({
-      QueryString: sqlQuery,
-      QueryExecutionContext: {
-        Database: DATABASE_NAME
-      },
-      ResultConfiguration: {
-        OutputLocation: S3_OUTPUT_LOCATION
+    // Wait for a terminal state until the timeout
+    let queryExecution;
+    while (true) {
+      const execResult = await athenaClient.send(new GetQueryExecutionCommand({
+        QueryExecutionId: taskId
+      }));
+      queryExecution = execResult.QueryExecution;
+      const state = queryExecution?.Status?.State;
+      if ((state !== 'QUEUED' && state !== 'RUNNING') || Date.now() + POLL_INTERVAL_MS > deadline) {
+        break;
       }
-    }));
-    
-    // Use execution ID as task ID (only one query per task)
-    const taskId = queryExecution.QueryExecutionId;
-    
-    if (!taskId) {
-      throw new Error('Failed to start Athena query execution: QueryExecutionId is missing');
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
     }
     
-    // Create task entity
-    const taskItem = {
-      PK: \`task#\${taskId}\`,
-      SK: \`task#\${taskId}\`,
-      id: taskId,
-      entityType: 'task',
-      entityId: taskId,
-      taskStatus: 'RUNNING',
-      startDate: now,
-      finishDate: null,
-      createdAt: now,
-      updatedAt: now
-    };
-    
-    await dynamoClient.send(new PutItemCommand({
-      TableName: TABLE_NAME,
-      Item: marshall(taskItem)
-    }));
+    const state = queryExecution?.Status?.State;
+    const finished = state === 'SUCCEEDED' || state === 'FAILED' || state === 'CANCELLED';
+    // The execution tracker records the final state on the task# item
+    const page = state === 'SUCCEEDED'
+      ? await readTaskResultPage(taskId)
+      : { result: null, nextToken: null };
     
-    return { taskId };
+    return {
+      taskId,
+      taskStatus: finished ? state : 'RUNNING',
+      result: page.result,
+      nextToken: page.nextToken,
+      startDate: toIsoDate(queryExecution?.Status?.SubmissionDateTime) || new Date().toISOString(),
+      finishDate: finished ? toIsoDate(queryExecution.Status.CompletionDateTime) : null,
+      ...toExecutionDetailFields(getExecutionDetails(queryExecution))
+    };
   } catch (error) {
-    console.error('Error triggering task:', error);
+    console.error('Error running ${query.name}:', error);
     throw error;
   }
 };
@@ -1859,32 +3595,6 @@ exports.handler = async (event) => {
   private generateTaskResultQuery(query: FieldMetadata): string {
     const queryName = query.name;
     const capitalizedQueryName = this.capitalizeFirst(queryName);
-    const returnType = query.isList ? `[${query.type}!]` : query.type;
-
-    // Get the response type metadata to build field mapping
-    const responseType = this.schemaMetadata.types.find(
-      (t) => t.name === query.type
-    );
-    const graphQLFields: string[] = [];
-    const athenaToGraphQLMap: Record<string, string> = {};
-
-    // Track datetime fields for conversion
-    const datetimeFields: string[] = [];
-
-    if (responseType) {
-      // Create reverse mapping: lowercase Athena column name -> GraphQL camelCase field name
-      responseType.fields.forEach((field) => {
-        const graphQLFieldName = field.name;
-        const athenaColumnName = field.name.toLowerCase();
-        graphQLFields.push(graphQLFieldName);
-        athenaToGraphQLMap[athenaColumnName] = graphQLFieldName;
-
-        // Track AWSDateTime fields for format conversion
-        if (field.type === "AWSDateTime") {
-          datetimeFields.push(graphQLFieldName);
-        }
-      });
-    }
 
     return `
 const { DynamoDBClient, GetItemCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
@@ -1895,65 +3605,11 @@ const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 
-// Mapping from Athena lowercase column names to GraphQL camelCase field names
-const athenaToGraphQLMap = ${JSON.stringify(athenaToGraphQLMap)};
-const graphQLFields = ${JSON.stringify(graphQLFields)};
-const datetimeFields = ${JSON.stringify(datetimeFields)};
-
-// Helper function to map Athena column names to GraphQL field names (case-insensitive)
-function mapAthenaToGraphQL(athenaColumnName) {
-  const lowerColumn = athenaColumnName.toLowerCase();
-  // Look up in the mapping
-  if (athenaToGraphQLMap[lowerColumn]) {
-    return athenaToGraphQLMap[lowerColumn];
-  }
-  // Fallback: try to find case-insensitive match in GraphQL fields
-  for (const graphQLField of graphQLFields) {
-    if (graphQLField.toLowerCase() === lowerColumn) {
-      return graphQLField;
-    }
-  }
-  // Fallback: return original if no match found
-  return athenaColumnName;
-}
-
-// Helper function to convert Athena datetime format to ISO 8601
-// Athena returns: "2025-12-09 09:38:26.778" (SQL format)
-// GraphQL AWSDateTime expects: "2025-12-09T09:38:26.778Z" (ISO 8601)
-function convertDateTime(value, fieldName) {
-  if (!value || !datetimeFields.includes(fieldName)) {
-    return value;
-  }
-  
-  if (typeof value !== 'string') {
-    return value;
-  }
-  
-  // If already in ISO format (contains T), check if it has timezone
-  if (value.includes('T')) {
-    // If it ends with Z or has timezone offset (+/-HH:MM), return as-is
-    if (value.endsWith('Z') || /[+-]\\d{2}:\\d{2}$/.test(value)) {
-      return value;
-    }
-    // Add Z if missing timezone
-    return value + 'Z';
-  }
-  
-  // Convert SQL datetime format to ISO 8601
-  // Format: "2025-12-09 09:38:26.778" -> "2025-12-09T09:38:26.778Z"
-  // Replace space with T
-  let isoValue = value.replace(' ', 'T');
-  
-  // Add Z if no timezone indicator present
-  if (!isoValue.includes('Z') && !/[+-]\\d{2}:\\d{2}$/.test(isoValue)) {
-    isoValue = isoValue + 'Z';
-  }
-  
-  return isoValue;
-}
-
+${this.generateTaskResultReader(query)}
+${this.generateExecutionDetailsHelper()}${this.generateExecutionDetailsUpdateHelper()}${this.generateExecutionDetailFieldsHelper()}
+${this.generateTaskAuthHelpers(query)}
 exports.handler = async (event) => {
-  try {
+  try {${this.generateFieldAuthCheck(query)}
     const taskId = event.arguments.taskId;
     
     // Get task entity (taskId is the execution ID)
@@ -1970,6 +3626,7 @@ exports.handler = async (event) => {
     }
     
     let task = unmarshall(taskResult.Item);
+    ${this.generateTaskOwnershipCheck(query)}
     let taskStatus = task.taskStatus || 'RUNNING';
     let finishDate = task.finishDate || null;
     
@@ -1987,18 +3644,15 @@ exports.handler = async (event) => {
         if (status === 'SUCCEEDED') {
           taskStatus = 'SUCCEEDED';
         } else if (status === 'FAILED' || status === 'CANCELLED') {
-          taskStatus = 'FAILED';
+          taskStatus = status;
         } else {
           taskStatus = 'RUNNING';
         }
         
         // Update task entity if status changed
         if (task.taskStatus !== taskStatus) {
-          const updateExpression = taskStatus === 'SUCCEEDED' || taskStatus === 'FAILED'
-            ? 'SET taskStatus = :status, finishDate = :finishDate, updatedAt = :updatedAt'
-            : 'SET taskStatus = :status, updatedAt = :updatedAt';
-          
-          const expressionAttributeValues = taskStatus === 'SUCCEEDED' || taskStatus === 'FAILED'
+          const isFinished = taskStatus !== 'RUNNING';
+          const expressionAttributeValues = isFinished
             ? {
                 ':status': { S: taskStatus },
                 ':finishDate': { S: statusChangeDateTime || new Date().toISOString() },
@@ -2009,6 +3663,14 @@ exports.handler = async (event) => {
                 ':updatedAt': { S: new Date().toISOString() }
               };
           
+          const updateExpression = isFinished
+            ? addExecutionDetails(
+                'SET taskStatus = :status, finishDate = :finishDate, updatedAt = :updatedAt',
+                expressionAttributeValues,
+                getExecutionDetails(execResult.QueryExecution)
+              )
+            : 'SET taskStatus = :status, updatedAt = :updatedAt';
+          
           await dynamoClient.send(new UpdateItemCommand({
             TableName: TABLE_NAME,
             Key: {
@@ -2037,63 +3699,495 @@ exports.handler = async (event) => {
       }
     }
     
-    // Build result if query completed successfully
-    let result = null;
-    if (taskStatus === 'SUCCEEDED') {
-      try {
-        const athenaResults = await athenaClient.send(new GetQueryResultsCommand({
-          QueryExecutionId: taskId,
-          MaxResults: 1000
-        }));
-        
-        const rows = athenaResults.ResultSet?.Rows || [];
-        const headers = rows[0]?.Data?.map(col => col.VarCharValue) || [];
-        
-        const data = rows.slice(1).map(row => {
-          const obj = {};
-          row.Data?.forEach((col, index) => {
-            const athenaColumnName = headers[index] || '';
-            // Map Athena column name (lowercase) to GraphQL field name (camelCase)
-            const graphQLFieldName = mapAthenaToGraphQL(athenaColumnName);
-            let value = col.VarCharValue;
-            // Convert datetime fields to ISO 8601 format
-            value = convertDateTime(value, graphQLFieldName);
-            obj[graphQLFieldName] = value;
-          });
-          return obj;
-        });
-        
-        result = ${query.isList ? "data" : "data[0] || null"};
-      } catch (error) {
-        console.error(\`Error retrieving results for execution \${taskId}:\`, error);
-        result = null;
-      }
+    // Build result if query completed successfully
+    let result = null;
+    let nextToken = null;
+    if (taskStatus === 'SUCCEEDED') {
+      const requestedToken = event.arguments.nextToken || null;
+      try {
+        ({ result, nextToken } = await readTaskResultPage(taskId, event.arguments.limit, requestedToken));
+      } catch (error) {
+        if (requestedToken && error.name === 'InvalidRequestException') {
+          throw new Error('Invalid nextToken');
+        }
+        console.error(\`Error retrieving results for execution \${taskId}:\`, error);
+        result = null;
+      }
+    }
+    
+    return {
+      taskId,
+      taskStatus,
+      result,
+      nextToken,
+      startDate: task.startDate,
+      finishDate: finishDate,
+      ...toExecutionDetailFields(task)
+    };
+  } catch (error) {
+    console.error('Error getting task result:', error);
+    throw error;
+  }
+};
+`;
+  }
+
+  /**
+   * Column mapping, type coercion and paging of Athena results for a task
+   * query, exposed as readTaskResultPage(taskId, limit, nextToken)
+   */
+  private generateTaskResultReader(query: FieldMetadata): string {
+    return `${this.generateResultReaderHelpers()}
+const RESULT_TYPE = ${JSON.stringify(this.getTaskResultType(query))};
+
+function readTaskResultPage(taskId, limit, requestedToken) {
+  return readResultPage(taskId, limit, requestedToken, RESULT_TYPE);
+}
+`;
+  }
+
+  /**
+   * How Athena rows map onto a task query's @task_response type: column to
+   * field names, AWSDateTime fields, declared field types and list-ness
+   */
+  private getTaskResultType(query: FieldMetadata): {
+    athenaToGraphQLMap: Record<string, string>;
+    graphQLFields: string[];
+    datetimeFields: string[];
+    fieldTypes: Record<string, { type: string; isList: boolean }>;
+    isList: boolean;
+  } {
+    // Get the response type metadata to build field mapping
+    const responseType = this.schemaMetadata.types.find(
+      (t) => t.name === query.type
+    );
+    const graphQLFields: string[] = [];
+    const athenaToGraphQLMap: Record<string, string> = {};
+
+    // Track datetime fields for conversion
+    const datetimeFields: string[] = [];
+
+    // Declared GraphQL type of each field, for coercing Athena's string values
+    const fieldTypes: Record<string, { type: string; isList: boolean }> = {};
+
+    if (responseType) {
+      // Create reverse mapping: lowercase Athena column name -> GraphQL camelCase field name
+      responseType.fields.forEach((field) => {
+        const graphQLFieldName = field.name;
+        const athenaColumnName = field.name.toLowerCase();
+        graphQLFields.push(graphQLFieldName);
+        athenaToGraphQLMap[athenaColumnName] = graphQLFieldName;
+
+        // Track AWSDateTime fields for format conversion
+        if (field.type === "AWSDateTime") {
+          datetimeFields.push(graphQLFieldName);
+        }
+        fieldTypes[graphQLFieldName] = {
+          type: field.type,
+          isList: field.isList,
+        };
+      });
+    }
+
+    return {
+      athenaToGraphQLMap,
+      graphQLFields,
+      datetimeFields,
+      fieldTypes,
+      isList: query.isList,
+    };
+  }
+
+  /**
+   * readResultPage(executionId, limit, nextToken, resultType), shared by the
+   * task result readers and the execution tracker's completion notifications
+   */
+  private generateResultReaderHelpers(): string {
+    return `
+// Athena returns at most 1000 rows per GetQueryResults call
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 1000;
+
+// Helper function to map Athena column names to GraphQL field names (case-insensitive)
+function mapAthenaToGraphQL(athenaColumnName, resultType) {
+  const lowerColumn = athenaColumnName.toLowerCase();
+  // Look up in the mapping
+  if (resultType.athenaToGraphQLMap[lowerColumn]) {
+    return resultType.athenaToGraphQLMap[lowerColumn];
+  }
+  // Fallback: try to find case-insensitive match in GraphQL fields
+  for (const graphQLField of resultType.graphQLFields) {
+    if (graphQLField.toLowerCase() === lowerColumn) {
+      return graphQLField;
+    }
+  }
+  // Fallback: return original if no match found
+  return athenaColumnName;
+}
+
+// Helper function to convert Athena datetime format to ISO 8601
+// Athena returns: "2025-12-09 09:38:26.778" (SQL format)
+// GraphQL AWSDateTime expects: "2025-12-09T09:38:26.778Z" (ISO 8601)
+function convertDateTime(value, fieldName, resultType) {
+  if (!value || !resultType.datetimeFields.includes(fieldName)) {
+    return value;
+  }
+  
+  if (typeof value !== 'string') {
+    return value;
+  }
+  
+  // If already in ISO format (contains T), check if it has timezone
+  if (value.includes('T')) {
+    // If it ends with Z or has timezone offset (+/-HH:MM), return as-is
+    if (value.endsWith('Z') || /[+-]\\d{2}:\\d{2}$/.test(value)) {
+      return value;
+    }
+    // Add Z if missing timezone
+    return value + 'Z';
+  }
+  
+  // Convert SQL datetime format to ISO 8601
+  // Format: "2025-12-09 09:38:26.778" -> "2025-12-09T09:38:26.778Z"
+  // Replace space with T
+  let isoValue = value.replace(' ', 'T');
+  
+  // Add Z if no timezone indicator present
+  if (!isoValue.includes('Z') && !/[+-]\\d{2}:\\d{2}$/.test(isoValue)) {
+    isoValue = isoValue + 'Z';
+  }
+  
+  return isoValue;
+}
+
+// Athena returns every value as a string (or no value for NULL)
+function coerceScalar(value, type) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 'Int': {
+      const number = parseInt(value, 10);
+      return isNaN(number) ? null : number;
+    }
+    case 'Float': {
+      const number = parseFloat(value);
+      return isNaN(number) ? null : number;
+    }
+    case 'Boolean':
+      return value === true || String(value).toLowerCase() === 'true';
+    default:
+      return value;
+  }
+}
+
+// Convert a column value to the GraphQL type declared on the @task_response type
+// Array columns come back as "[a, b, c]"
+function coerceValue(value, fieldName, resultType) {
+  const fieldType = resultType.fieldTypes[fieldName];
+  if (value === null || value === undefined || !fieldType) {
+    return value === undefined ? null : value;
+  }
+  if (fieldType.isList) {
+    const inner = String(value).trim().replace(/^\\[/, '').replace(/\\]$/, '').trim();
+    if (inner.length === 0) {
+      return [];
+    }
+    return inner.split(/,\\s*/).map((item) => coerceScalar(convertDateTime(item, fieldName, resultType), fieldType.type));
+  }
+  return coerceScalar(convertDateTime(value, fieldName, resultType), fieldType.type);
+}
+
+// Read one page of results, converted to the declared GraphQL types
+async function readResultPage(executionId, limit, requestedToken, resultType) {
+  const pageSize = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  // Only the first page starts with a header row
+  let skipHeader = !requestedToken;
+  let nextToken = requestedToken || undefined;
+  let headers = [];
+  const rows = [];
+  // The header row can push the last row of a full first page into another request
+  do {
+    const athenaResults = await athenaClient.send(new GetQueryResultsCommand({
+      QueryExecutionId: executionId,
+      MaxResults: Math.min(pageSize - rows.length + (skipHeader ? 1 : 0), MAX_LIMIT),
+      NextToken: nextToken
+    }));
+    headers = athenaResults.ResultSet?.ResultSetMetadata?.ColumnInfo?.map(col => col.Name) || [];
+    rows.push(...(athenaResults.ResultSet?.Rows || []).slice(skipHeader ? 1 : 0));
+    skipHeader = false;
+    nextToken = athenaResults.NextToken;
+  } while (rows.length < pageSize && nextToken);
+  
+  const data = rows.map(row => {
+    const obj = {};
+    row.Data?.forEach((col, index) => {
+      const athenaColumnName = headers[index] || '';
+      // Map Athena column name (lowercase) to GraphQL field name (camelCase)
+      const graphQLFieldName = mapAthenaToGraphQL(athenaColumnName, resultType);
+      // Convert to the declared GraphQL type (datetimes to ISO 8601)
+      obj[graphQLFieldName] = coerceValue(col.VarCharValue, graphQLFieldName, resultType);
+    });
+    return obj;
+  });
+  
+  return {
+    result: resultType.isList ? data : data[0] || null,
+    nextToken: nextToken || null
+  };
+}
+`;
+  }
+
+  /**
+   * Whether the schema produces any Athena tasks (@task queries or DELETE mutations)
+   */
+  private hasTasks(): boolean {
+    return (
+      this.schemaMetadata.queries.some((q) => q.isTask) ||
+      this.schemaMetadata.mutations.some((m) =>
+        (m.sqlQuery?.query.trim().toUpperCase() || "").startsWith("DELETE")
+      )
+    );
+  }
+
+  /**
+   * Task fields returned by listTasks and cancelTask
+   */
+  private generateTaskInfoHelper(): string {
+    return `
+function toTaskInfo(task) {
+  return {
+    taskId: task.taskId || task.id,
+    queryName: task.queryName || task.mutationName || null,
+    taskType: task.taskType || null,
+    taskStatus: task.taskStatus,
+    startDate: task.startDate,
+    finishDate: task.finishDate || null,
+    ...toExecutionDetailFields(task)
+  };
+}
+`;
+  }
+
+  private generateListTasksQuery(): string {
+    return `
+const { DynamoDBClient, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// nextToken is the base64 encoded LastEvaluatedKey of the previous page
+function decodeNextToken(nextToken) {
+  if (!nextToken) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(nextToken, 'base64').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid nextToken');
+  }
+}
+
+function encodeNextToken(lastEvaluatedKey) {
+  if (!lastEvaluatedKey) {
+    return null;
+  }
+  return Buffer.from(JSON.stringify(lastEvaluatedKey), 'utf8').toString('base64');
+}
+${this.generateFilledPageQueryHelper()}${this.generateExecutionDetailFieldsHelper()}${this.generateTaskInfoHelper()}${this.generateCallerIdentityHelper()}${this.generateTaskOwnerHelper()}
+exports.handler = async (event) => {
+  try {
+    const { status, queryName, limit, nextToken } = event.arguments;
+    const pageSize = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    
+    // GSI1: the caller's tasks, so other callers' tasks are never read
+    const names = { '#listKey': 'GSI1-PK' };
+    const values = { ':listKey': { S: getTaskListKey(getTaskOwner(event)) } };
+    const filters = [];
+    
+    if (status) {
+      names['#taskStatus'] = 'taskStatus';
+      values[':taskStatus'] = { S: status };
+      filters.push('#taskStatus = :taskStatus');
+    }
+    
+    if (queryName) {
+      names['#queryName'] = 'queryName';
+      values[':queryName'] = { S: queryName };
+      filters.push('#queryName = :queryName');
     }
     
+    // Newest first
+    const page = await queryFilledPage({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: '#listKey = :listKey',
+      FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ScanIndexForward: false
+    }, pageSize, decodeNextToken(nextToken), ['PK', 'SK', 'GSI1-PK', 'GSI1-SK']);
+    
     return {
-      taskStatus,
-      result,
-      startDate: task.startDate,
-      finishDate: finishDate
+      items: page.items.map((item) => toTaskInfo(unmarshall(item))),
+      nextToken: encodeNextToken(page.lastEvaluatedKey)
     };
   } catch (error) {
-    console.error('Error getting task result:', error);
+    console.error('Error listing tasks:', error);
     throw error;
   }
 };
 `;
   }
 
-  private generateAthenaExecutionTracker(): string {
+  private generateCancelTaskMutation(): string {
     return `
 const { DynamoDBClient, GetItemCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
-const { AthenaClient, GetQueryExecutionCommand } = require('@aws-sdk/client-athena');
+const { AthenaClient, StopQueryExecutionCommand } = require('@aws-sdk/client-athena');
 const { unmarshall } = require('@aws-sdk/util-dynamodb');
 
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
+${this.generateExecutionDetailFieldsHelper()}${this.generateTaskInfoHelper()}${this.generateCallerIdentityHelper()}${this.generateTaskOwnerHelper()}
+exports.handler = async (event) => {
+  try {
+    const taskId = event.arguments.taskId;
+    const key = {
+      PK: { S: \`task#\${taskId}\` },
+      SK: { S: \`task#\${taskId}\` }
+    };
+    
+    const taskResult = await dynamoClient.send(new GetItemCommand({
+      TableName: TABLE_NAME,
+      Key: key
+    }));
+    
+    if (!taskResult.Item) {
+      throw new Error('Task not found');
+    }
+    
+    const task = unmarshall(taskResult.Item);
+    if ((task.ownerId || null) !== getTaskOwner(event)) {
+      throw new Error('Unauthorized');
+    }
+    if (task.taskStatus !== 'RUNNING') {
+      throw new Error(\`Task \${taskId} is already \${task.taskStatus}\`);
+    }
+    
+    // The task ID is the Athena execution ID
+    await athenaClient.send(new StopQueryExecutionCommand({
+      QueryExecutionId: taskId
+    }));
+    
+    // The execution tracker may record the final state first
+    const now = new Date().toISOString();
+    try {
+      const updated = await dynamoClient.send(new UpdateItemCommand({
+        TableName: TABLE_NAME,
+        Key: key,
+        UpdateExpression: 'SET taskStatus = :cancelled, finishDate = :now, updatedAt = :now',
+        ConditionExpression: 'taskStatus = :running',
+        ExpressionAttributeValues: {
+          ':cancelled': { S: 'CANCELLED' },
+          ':running': { S: 'RUNNING' },
+          ':now': { S: now }
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+      return toTaskInfo(unmarshall(updated.Attributes));
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(\`Task \${taskId} finished before it could be cancelled\`);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error cancelling task:', error);
+    throw error;
+  }
+};
+`;
+  }
+
+  /**
+   * Failure reason and cost statistics of an Athena execution, persisted on
+   * the task# item and returned by the task result queries
+   */
+  private generateExecutionDetailsHelper(): string {
+    return `
+// Athena AthenaError.ErrorCategory codes
+const ERROR_CATEGORIES = { 1: 'SYSTEM', 2: 'USER', 3: 'OTHER' };
+
+function getExecutionDetails(queryExecution) {
+  const status = queryExecution?.Status || {};
+  const statistics = queryExecution?.Statistics || {};
+  const failed = status.State === 'FAILED' || status.State === 'CANCELLED';
+  const details = {
+    errorMessage: failed ? status.AthenaError?.ErrorMessage || status.StateChangeReason : undefined,
+    errorCategory: failed ? ERROR_CATEGORIES[status.AthenaError?.ErrorCategory] : undefined,
+    dataScannedBytes: statistics.DataScannedInBytes,
+    engineExecutionTimeMs: statistics.EngineExecutionTimeInMillis,
+    queuedTimeMs: statistics.QueryQueueTimeInMillis
+  };
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined && value !== null));
+}
+`;
+  }
+
+  private generateExecutionDetailsUpdateHelper(): string {
+    return `
+// Append execution details to an UpdateItem SET expression
+function addExecutionDetails(updateExpression, expressionAttributeValues, details) {
+  let expression = updateExpression;
+  for (const [name, value] of Object.entries(details)) {
+    expression += \`, \${name} = :\${name}\`;
+    expressionAttributeValues[':' + name] = typeof value === 'number' ? { N: String(value) } : { S: String(value) };
+  }
+  return expression;
+}
+`;
+  }
+
+  private generateExecutionDetailFieldsHelper(): string {
+    return `
+// Task result fields for execution details (null when unknown)
+function toExecutionDetailFields(details) {
+  return {
+    errorMessage: details.errorMessage ?? null,
+    errorCategory: details.errorCategory ?? null,
+    dataScannedBytes: details.dataScannedBytes ?? null,
+    engineExecutionTimeMs: details.engineExecutionTimeMs ?? null,
+    queuedTimeMs: details.queuedTimeMs ?? null
+  };
+}
+`;
+  }
+
+  private generateAthenaExecutionTracker(): string {
+    // Result types of every task query, for the first page pushed to subscribers
+    const resultTypes = Object.fromEntries(
+      this.schemaMetadata.queries
+        .filter((q) => q.isTask && q.sqlQuery)
+        .map((q) => [q.name, this.getTaskResultType(q)])
+    );
+
+    return `
+const { DynamoDBClient, GetItemCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
+const { AthenaClient, GetQueryExecutionCommand, GetQueryResultsCommand } = require('@aws-sdk/client-athena');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
 
+const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
+${this.generateExecutionDetailsHelper()}${this.generateExecutionDetailsUpdateHelper()}${this.generateExecutionDetailFieldsHelper()}${this.generateResultReaderHelpers()}
+const RESULT_TYPES = ${JSON.stringify(resultTypes)};
+${this.generateTaskCompletionNotifier()}
 exports.handler = async (event) => {
   try {
     // EventBridge event structure for Athena Query State Change events
@@ -2143,19 +4237,33 @@ exports.handler = async (event) => {
     if (status === 'SUCCEEDED') {
       taskStatus = 'SUCCEEDED';
     } else if (status === 'FAILED' || status === 'CANCELLED') {
-      taskStatus = 'FAILED';
+      taskStatus = status;
     }
     
-    // Get execution details to get finish date
+    // Get execution details: finish date, failure reason and statistics
     let finishDate = null;
+    let details = {};
+    let outputLocation = null;
     try {
       const execResult = await athenaClient.send(new GetQueryExecutionCommand({
         QueryExecutionId: executionId
       }));
       finishDate = execResult.QueryExecution?.Status?.StateChangeDateTime || new Date().toISOString();
+      details = getExecutionDetails(execResult.QueryExecution);
+      outputLocation = execResult.QueryExecution?.ResultConfiguration?.OutputLocation || null;
     } catch (error) {
       console.error(\`Error getting execution details for \${executionId}:\`, error);
       finishDate = new Date().toISOString();
+      // Fall back to the error carried by the state change event
+      const athenaError = event.detail?.athenaError;
+      if (taskStatus !== 'SUCCEEDED' && athenaError?.errorMessage) {
+        details = getExecutionDetails({
+          Status: {
+            State: status,
+            AthenaError: { ErrorMessage: athenaError.errorMessage, ErrorCategory: athenaError.errorCategory }
+          }
+        });
+      }
     }
     
     // Reuse taskResult from earlier (already fetched at line 2301)
@@ -2163,12 +4271,16 @@ exports.handler = async (event) => {
     const taskType = task.taskType || null;
     
     // Update task entity
-    const updateExpression = 'SET taskStatus = :status, finishDate = :finishDate, updatedAt = :updatedAt';
     const expressionAttributeValues = {
       ':status': { S: taskStatus },
       ':finishDate': { S: finishDate },
       ':updatedAt': { S: new Date().toISOString() }
     };
+    const updateExpression = addExecutionDetails(
+      'SET taskStatus = :status, finishDate = :finishDate, updatedAt = :updatedAt',
+      expressionAttributeValues,
+      details
+    );
     
     await dynamoClient.send(new UpdateItemCommand({
       TableName: TABLE_NAME,
@@ -2182,7 +4294,10 @@ exports.handler = async (event) => {
     
     console.log(\`Successfully updated task \${executionId} with status \${taskStatus}\`);
     
-    // If this is a deletion task that succeeded, publish to deletion queue
+${
+  this.options.tableFormat === "iceberg"
+    ? "    // Deletion tasks on Iceberg tables delete the rows themselves\n"
+    : `    // If this is a deletion task that succeeded, publish to deletion queue
     if (taskType === 'deletionTask' && taskStatus === 'SUCCEEDED') {
       const { SQSClient, SendMessageCommand } = require('@aws-sdk/client-sqs');
       const sqsClient = new SQSClient({ region: process.env.AWS_REGION });
@@ -2203,6 +4318,64 @@ exports.handler = async (event) => {
         console.warn('DELETION_QUEUE_URL not set, skipping queue publish');
       }
     }
+`
+}    
+    // Queue the webhook given as triggerTask*(callbackUrl: ...); the sender retries failed deliveries
+    if (task.callbackUrl) {
+      const { SQSClient, SendMessageCommand } = require('@aws-sdk/client-sqs');
+      const sqsClient = new SQSClient({ region: process.env.AWS_REGION });
+      const WEBHOOK_QUEUE_URL = process.env.WEBHOOK_QUEUE_URL;
+      
+      if (WEBHOOK_QUEUE_URL) {
+        try {
+          await sqsClient.send(new SendMessageCommand({
+            QueueUrl: WEBHOOK_QUEUE_URL,
+            MessageBody: JSON.stringify({
+              callbackUrl: task.callbackUrl,
+              payload: {
+                taskId: executionId,
+                queryName: task.queryName || null,
+                taskType,
+                taskStatus,
+                startDate: task.startDate || null,
+                finishDate,
+                // Athena's CSV output, only meaningful for succeeded query tasks
+                resultLocation: taskType === 'queryTask' && taskStatus === 'SUCCEEDED' ? outputLocation : null,
+                ...toExecutionDetailFields(details)
+              }
+            })
+          }));
+          console.log(\`Queued webhook for task \${executionId}\`);
+        } catch (error) {
+          console.error(\`Error queueing webhook for task \${executionId}:\`, error);
+        }
+      } else {
+        console.warn('WEBHOOK_QUEUE_URL not set, skipping webhook');
+      }
+    }
+    
+    // Push the completion and the first page of results to subscribers
+    let firstPage = { result: null, nextToken: null };
+    const resultType = taskType === 'queryTask' && RESULT_TYPES[task.queryName];
+    if (resultType && taskStatus === 'SUCCEEDED') {
+      try {
+        firstPage = await readResultPage(executionId, NOTIFICATION_RESULT_LIMIT, null, resultType);
+      } catch (error) {
+        console.error(\`Error reading results for execution \${executionId}:\`, error);
+      }
+    }
+    await notifyTaskCompleted({
+      taskId: executionId,
+      queryName: task.queryName || null,
+      taskType,
+      ownerId: task.ownerId || '',
+      taskStatus,
+      startDate: task.startDate || null,
+      finishDate,
+      result: firstPage.result === null ? null : JSON.stringify(firstPage.result),
+      nextToken: firstPage.nextToken,
+      ...toExecutionDetailFields(details)
+    });
     
     return { statusCode: 200, body: 'Success' };
   } catch (error) {
@@ -2213,9 +4386,425 @@ exports.handler = async (event) => {
 `;
   }
 
+  /**
+   * notifyTaskCompleted(completion): run the notifyTaskCompleted mutation,
+   * signed with the function's IAM credentials, so AppSync pushes the
+   * completion to onTaskCompleted / onTask<Query>Completed subscribers
+   */
+  private generateTaskCompletionNotifier(): string {
+    return `
+// Subscription payloads are limited to 240 KB, clients page on with taskResult
+const NOTIFICATION_RESULT_LIMIT = 100;
+
+// Subscribers only receive the fields selected by the mutation
+const NOTIFY_TASK_COMPLETED_MUTATION = \`mutation NotifyTaskCompleted($input: TaskCompletionInput!) {
+  notifyTaskCompleted(input: $input) {
+    taskId queryName taskType ownerId taskStatus startDate finishDate result nextToken
+    errorMessage errorCategory dataScannedBytes engineExecutionTimeMs queuedTimeMs
+  }
+}\`;
+
+// SHA-256 for SignatureV4, backed by Node's crypto module
+class Sha256 {
+  constructor(secret) {
+    const crypto = require('crypto');
+    this.hash = secret ? crypto.createHmac('sha256', secret) : crypto.createHash('sha256');
+  }
+  update(data) {
+    this.hash.update(data);
+  }
+  async digest() {
+    return new Uint8Array(this.hash.digest());
+  }
+}
+
+async function notifyTaskCompleted(completion) {
+  const GRAPHQL_API_URL = process.env.GRAPHQL_API_URL;
+  if (!GRAPHQL_API_URL) {
+    console.warn('GRAPHQL_API_URL not set, skipping task completion notification');
+    return;
+  }
+  
+  try {
+    const { SignatureV4 } = require('@smithy/signature-v4');
+    const url = new URL(GRAPHQL_API_URL);
+    const body = JSON.stringify({
+      query: NOTIFY_TASK_COMPLETED_MUTATION,
+      variables: { input: completion }
+    });
+    const signer = new SignatureV4({
+      service: 'appsync',
+      region: process.env.AWS_REGION,
+      credentials: {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+        sessionToken: process.env.AWS_SESSION_TOKEN
+      },
+      sha256: Sha256
+    });
+    const signedRequest = await signer.sign({
+      method: 'POST',
+      protocol: url.protocol,
+      hostname: url.hostname,
+      path: url.pathname,
+      headers: { host: url.host, 'content-type': 'application/json' },
+      body
+    });
+    
+    const response = await fetch(GRAPHQL_API_URL, {
+      method: 'POST',
+      headers: signedRequest.headers,
+      body
+    });
+    const payload = await response.json();
+    if (!response.ok || payload.errors?.length) {
+      console.error(\`Error notifying completion of task \${completion.taskId}:\`, JSON.stringify(payload.errors || payload));
+    } else {
+      console.log(\`Notified subscribers of task \${completion.taskId}\`);
+    }
+  } catch (error) {
+    // Don't fail - task is already updated and taskResult still works
+    console.error(\`Error notifying completion of task \${completion.taskId}:\`, error);
+  }
+}
+`;
+  }
+
+  /**
+   * Publish <Type>Created/Updated/Deleted for entity items and
+   * JoinRelationCreated for new join table rows to the project event bus
+   * Task, task cache and joinRelation index items are internal and skipped
+   */
+  private generateDomainEventPublisher(): string {
+    // Stored entityType (lowercase) -> GraphQL type name
+    const entityTypeNames = Object.fromEntries(
+      this.schemaMetadata.types
+        .filter((type) => !type.isPrimitive && !type.isTaskResponse)
+        .map((type) => [type.name.toLowerCase(), type.name])
+    );
+
+    return `
+const { EventBridgeClient, PutEventsCommand } = require('@aws-sdk/client-eventbridge');
+const { unmarshall } = require('@aws-sdk/util-dynamodb');
+
+const eventBridgeClient = new EventBridgeClient({ region: process.env.AWS_REGION });
+const EVENT_BUS_NAME = process.env.DOMAIN_EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.DOMAIN_EVENT_SOURCE;
+
+const ENTITY_TYPE_NAMES = ${JSON.stringify(entityTypeNames)};
+const EVENT_SUFFIXES = { INSERT: 'Created', MODIFY: 'Updated', REMOVE: 'Deleted' };
+
+// Table keys are an implementation detail of the single-table design
+const INTERNAL_ATTRIBUTES = ['PK', 'SK', 'GSI1-PK', 'GSI1-SK'];
+
+// PutEvents accepts at most 10 entries per call
+const MAX_ENTRIES_PER_CALL = 10;
+
+function toPublicImage(image) {
+  if (!image) {
+    return null;
+  }
+  const item = unmarshall(image);
+  for (const attribute of INTERNAL_ATTRIBUTES) {
+    delete item[attribute];
+  }
+  return item;
+}
+
+// EventBridge entry for a stream record, null for items that are not published
+function toDomainEvent(record) {
+  const oldImage = toPublicImage(record.dynamodb?.OldImage);
+  const newImage = toPublicImage(record.dynamodb?.NewImage);
+  const keys = unmarshall(record.dynamodb?.Keys || {});
+  const item = newImage || oldImage || {};
+  
+  let detailType = null;
+  let detail = null;
+  if (String(keys.PK || '').startsWith('joinTableData#')) {
+    // Temporary join table row, written once per relation and removed after processing
+    if (record.eventName === 'INSERT') {
+      detailType = 'JoinRelationCreated';
+      detail = {
+        joinTableName: item.joinTableName || item.joinTable,
+        relationId: item.relationId,
+        oldImage: null,
+        newImage
+      };
+    }
+  } else if (ENTITY_TYPE_NAMES[item.entityType] && EVENT_SUFFIXES[record.eventName]) {
+    detailType = ENTITY_TYPE_NAMES[item.entityType] + EVENT_SUFFIXES[record.eventName];
+    detail = {
+      entityType: ENTITY_TYPE_NAMES[item.entityType],
+      id: item.id,
+      oldImage,
+      newImage
+    };
+  }
+  
+  if (!detailType) {
+    return null;
+  }
+  return {
+    EventBusName: EVENT_BUS_NAME,
+    Source: EVENT_SOURCE,
+    DetailType: detailType,
+    Time: record.dynamodb?.ApproximateCreationDateTime
+      ? new Date(record.dynamodb.ApproximateCreationDateTime * 1000)
+      : new Date(),
+    Detail: JSON.stringify(detail)
+  };
+}
+
+exports.handler = async (event) => {
+  const entries = (event.Records || []).map(toDomainEvent).filter(Boolean);
+  
+  for (let i = 0; i < entries.length; i += MAX_ENTRIES_PER_CALL) {
+    const batch = entries.slice(i, i + MAX_ENTRIES_PER_CALL);
+    const result = await eventBridgeClient.send(new PutEventsCommand({ Entries: batch }));
+    
+    if (result.FailedEntryCount > 0) {
+      const failures = (result.Entries || [])
+        .map((entry, index) => entry.ErrorCode && \`\${batch[index].DetailType}: \${entry.ErrorCode} \${entry.ErrorMessage}\`)
+        .filter(Boolean);
+      // Fail the batch so the stream retries it
+      throw new Error(\`Failed to publish \${result.FailedEntryCount} domain events: \${failures.join('; ')}\`);
+    }
+  }
+  
+  console.log(\`Published \${entries.length} domain events\`);
+  return { statusCode: 200, body: \`Published \${entries.length} domain events\` };
+};
+`;
+  }
+
+  /**
+   * SQS listener that POSTs task completion webhooks queued by the execution tracker
+   * The body is signed with HMAC-SHA256 over "<timestamp>.<body>"; failed
+   * deliveries are reported back to SQS so they are retried
+   */
+  private generateWebhookSender(): string {
+    return `
+const crypto = require('crypto');
+
+// Receivers must answer within this time or the delivery is retried
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+let webhookSecret = process.env.WEBHOOK_SECRET || null;
+
+// Signing secret, read from Secrets Manager once per container
+async function getWebhookSecret() {
+  if (!webhookSecret) {
+    const { SecretsManagerClient, GetSecretValueCommand } = require('@aws-sdk/client-secrets-manager');
+    const secretsClient = new SecretsManagerClient({ region: process.env.AWS_REGION });
+    const secret = await secretsClient.send(new GetSecretValueCommand({
+      SecretId: process.env.WEBHOOK_SECRET_ARN
+    }));
+    webhookSecret = secret.SecretString;
+  }
+  return webhookSecret;
+}
+
+async function deliverWebhook(messageId, callbackUrl, payload) {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = crypto
+    .createHmac('sha256', await getWebhookSecret())
+    .update(\`\${timestamp}.\${body}\`)
+    .digest('hex');
+  
+  const response = await fetch(callbackUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-OC-GraphQL-Delivery': messageId,
+      'X-OC-GraphQL-Timestamp': timestamp,
+      'X-OC-GraphQL-Signature': \`sha256=\${signature}\`
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(\`Webhook responded with \${response.status}\`);
+  }
+}
+
+exports.handler = async (event) => {
+  const batchItemFailures = [];
+  
+  for (const record of event.Records || []) {
+    try {
+      const { callbackUrl, payload } = JSON.parse(record.body);
+      await deliverWebhook(record.messageId, callbackUrl, payload);
+      console.log(\`Delivered webhook for task \${payload.taskId}\`);
+    } catch (error) {
+      console.error(\`Error delivering webhook message \${record.messageId}:\`, error);
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+  
+  // Only failed messages return to the queue
+  return { batchItemFailures };
+};
+`;
+  }
+
+  /**
+   * Data file deletion for the Node.js deletion listeners
+   * Keys in partitions merged by the Parquet compactor (see
+   * generateCompactionPythonHelpers) are rows in its bucket files by then, so the
+   * compactor removes them; the joinRelation s3Key stays the row's identity
+   */
+  private generateDataFileDeletionHelper(): string {
+    return `
+// tables/<table>/<partition path>/<row key>.parquet -> compaction manifest key
+function getCompactionManifestKey(s3Key) {
+  const parts = s3Key.split('/');
+  return {
+    PK: { S: \`compaction#\${parts[1]}\` },
+    SK: { S: parts.slice(2, -1).join('/') }
+  };
+}
+
+// Compacted or being compacted - the compactor has to apply the deletion
+async function isPartitionCompacted(s3Key) {
+  const result = await dynamoClient.send(new GetItemCommand({
+    TableName: TABLE_NAME,
+    Key: getCompactionManifestKey(s3Key),
+    ConsistentRead: true
+  }));
+  return !!result.Item && (!!result.Item.bucketCount || !!result.Item.lockOwner);
+}
+
+async function partitionCompactedKeys(s3Keys) {
+  const partitionStates = new Map();
+  const compactedKeys = [];
+  for (const s3Key of s3Keys) {
+    const partitionPath = s3Key.slice(0, s3Key.lastIndexOf('/'));
+    if (!partitionStates.has(partitionPath)) {
+      partitionStates.set(partitionPath, await isPartitionCompacted(s3Key));
+    }
+    if (partitionStates.get(partitionPath)) {
+      compactedKeys.push(s3Key);
+    }
+  }
+  return compactedKeys;
+}
+
+async function deleteDataFiles(s3Keys) {
+  const compactedKeys = new Set(await partitionCompactedKeys(s3Keys));
+  const plainKeys = s3Keys.filter((s3Key) => !compactedKeys.has(s3Key));
+  
+  // Bulk delete S3 objects (max 1000 per request)
+  for (let i = 0; i < plainKeys.length; i += 1000) {
+    const chunk = plainKeys.slice(i, i + 1000).map((key) => ({ Key: key }));
+    await s3Client.send(new DeleteObjectsCommand({
+      Bucket: BUCKET_NAME,
+      Delete: {
+        Objects: chunk,
+        Quiet: false
+      }
+    }));
+    console.log(\`Deleted \${chunk.length} S3 objects\`);
+  }
+  
+  // A compaction that started meanwhile may already have merged the deleted files
+  for (const s3Key of await partitionCompactedKeys(plainKeys)) {
+    compactedKeys.add(s3Key);
+  }
+  
+  if (compactedKeys.size > 0) {
+    const { LambdaClient, InvokeCommand } = require('@aws-sdk/client-lambda');
+    const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION });
+    const response = await lambdaClient.send(new InvokeCommand({
+      FunctionName: process.env.COMPACTOR_FUNCTION_NAME,
+      Payload: JSON.stringify({ action: 'deleteDataFiles', s3Keys: Array.from(compactedKeys) })
+    }));
+    if (response.FunctionError) {
+      throw new Error(\`Compactor failed to delete data files: \${Buffer.from(response.Payload).toString()}\`);
+    }
+    console.log(\`Deleted \${compactedKeys.size} rows from compacted partitions\`);
+  }
+}
+`;
+  }
+
+  /**
+   * Athena statement runner for the Iceberg tables, retrying the commit
+   * conflicts concurrent writers to the same table run into
+   */
+  private generateIcebergStatementHelper(): string {
+    return `
+const { AthenaClient, StartQueryExecutionCommand, GetQueryExecutionCommand } = require('@aws-sdk/client-athena');
+
+const icebergAthenaClient = new AthenaClient({ region: process.env.AWS_REGION });
+const MAX_COMMIT_ATTEMPTS = 5;
+
+async function runIcebergStatement(sql) {
+  for (let attempt = 1; ; attempt++) {
+    const { QueryExecutionId } = await icebergAthenaClient.send(new StartQueryExecutionCommand({
+      QueryString: sql,
+      QueryExecutionContext: { Database: process.env.ATHENA_DATABASE_NAME },
+      ResultConfiguration: { OutputLocation: process.env.ATHENA_OUTPUT_LOCATION }
+    }));
+    
+    let status;
+    do {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const result = await icebergAthenaClient.send(new GetQueryExecutionCommand({ QueryExecutionId }));
+      status = result.QueryExecution.Status;
+    } while (status.State === 'QUEUED' || status.State === 'RUNNING');
+    
+    if (status.State === 'SUCCEEDED') {
+      return;
+    }
+    
+    const reason = status.StateChangeReason || '';
+    if (reason.includes('ICEBERG_COMMIT_ERROR') && attempt < MAX_COMMIT_ATTEMPTS) {
+      console.warn(\`Iceberg commit conflict on \${QueryExecutionId}, retrying (attempt \${attempt})\`);
+      await new Promise((resolve) => setTimeout(resolve, attempt * 2000));
+      continue;
+    }
+    throw new Error(\`Athena statement \${QueryExecutionId} \${status.State}: \${reason}\`);
+  }
+}
+`;
+  }
+
+  /**
+   * deleteDataFiles for Iceberg tables: the joinRelation s3Key still names
+   * the row, which is deleted from its join table by relationId
+   */
+  private generateIcebergRowDeletionHelper(): string {
+    return `${this.generateIcebergStatementHelper()}
+// tables/<table>/<partition path>/<relationId>.parquet -> DELETE ... WHERE relationId IN (...)
+async function deleteDataFiles(s3Keys) {
+  const relationIdsByTable = new Map();
+  for (const s3Key of s3Keys) {
+    const parts = s3Key.split('/');
+    const tableName = parts[1];
+    const relationId = parts[parts.length - 1].replace(/\\.parquet$/, '');
+    if (!relationIdsByTable.has(tableName)) {
+      relationIdsByTable.set(tableName, []);
+    }
+    relationIdsByTable.get(tableName).push(relationId);
+  }
+  
+  for (const [tableName, relationIds] of relationIdsByTable) {
+    for (let i = 0; i < relationIds.length; i += 1000) {
+      const literals = relationIds.slice(i, i + 1000).map((id) => "'" + id.split("'").join("''") + "'");
+      await runIcebergStatement(
+        \`DELETE FROM "\${tableName.split('"').join('""')}" WHERE relationId IN (\${literals.join(', ')})\`
+      );
+    }
+    console.log(\`Deleted \${relationIds.length} rows from Iceberg table \${tableName}\`);
+  }
+}
+`;
+  }
+
   private generateCascadeDeletionListener(): string {
     return `
-const { DynamoDBClient, QueryCommand, DeleteItemCommand } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBClient, QueryCommand, DeleteItemCommand, GetItemCommand } = require('@aws-sdk/client-dynamodb');
 const { S3Client, DeleteObjectsCommand } = require('@aws-sdk/client-s3');
 const { unmarshall } = require('@aws-sdk/util-dynamodb');
 
@@ -2223,7 +4812,7 @@ const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const s3Client = new S3Client({ region: process.env.AWS_REGION });
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
 const BUCKET_NAME = process.env.S3_BUCKET_NAME;
-
+${this.options.tableFormat === "iceberg" ? this.generateIcebergRowDeletionHelper() : this.generateDataFileDeletionHelper()}
 exports.handler = async (event) => {
   try {
     console.log('Processing cascade deletion messages:', JSON.stringify(event, null, 2));
@@ -2310,28 +4899,14 @@ exports.handler = async (event) => {
           }
         }
         
-        // Bulk delete S3 objects (max 1000 per request)
+        // Delete the Parquet data files (rows, once their partition is compacted,
+        // or Iceberg table rows)
         if (s3KeysToDelete.size > 0) {
-          const s3KeysArray = Array.from(s3KeysToDelete).map(key => ({ Key: key }));
-          const chunks = [];
-          for (let i = 0; i < s3KeysArray.length; i += 1000) {
-            chunks.push(s3KeysArray.slice(i, i + 1000));
-          }
-          
-          for (const chunk of chunks) {
-            try {
-              await s3Client.send(new DeleteObjectsCommand({
-                Bucket: BUCKET_NAME,
-                Delete: {
-                  Objects: chunk,
-                  Quiet: false
-                }
-              }));
-              console.log(\`Deleted \${chunk.length} S3 objects\`);
-            } catch (error) {
-              console.error(\`Error deleting S3 objects:\`, error);
-              // Continue with other chunks
-            }
+          try {
+            await deleteDataFiles(Array.from(s3KeysToDelete));
+          } catch (error) {
+            console.error(\`Error deleting S3 objects:\`, error);
+            // Continue with the joinRelation items
           }
         }
         
@@ -2389,14 +4964,14 @@ exports.handler = async (event) => {
     return `
 const { AthenaClient, GetQueryResultsCommand } = require('@aws-sdk/client-athena');
 const { S3Client, DeleteObjectsCommand } = require('@aws-sdk/client-s3');
-const { DynamoDBClient, QueryCommand, DeleteItemCommand } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBClient, QueryCommand, DeleteItemCommand, GetItemCommand } = require('@aws-sdk/client-dynamodb');
 
 const athenaClient = new AthenaClient({ region: process.env.AWS_REGION });
 const s3Client = new S3Client({ region: process.env.AWS_REGION });
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const BUCKET_NAME = process.env.S3_BUCKET_NAME;
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME;
-
+${this.generateDataFileDeletionHelper()}
 exports.handler = async (event) => {
   try {
     console.log('Processing deletion messages:', JSON.stringify(event, null, 2));
@@ -2504,15 +5079,9 @@ exports.handler = async (event) => {
               }
             }
             
-            // 4. Delete S3 Parquet file
+            // 4. Delete S3 Parquet file (its row, once the partition is compacted)
             console.log(\`Deleting S3 object: \${item.s3Key}\`);
-            await s3Client.send(new DeleteObjectsCommand({
-              Bucket: BUCKET_NAME,
-              Delete: {
-                Objects: [{ Key: item.s3Key }],
-                Quiet: false
-              }
-            }));
+            await deleteDataFiles([item.s3Key]);
             
             console.log(\`Successfully deleted item with relationId \${item.relationId}\`);
           } catch (error) {
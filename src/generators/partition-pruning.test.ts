@@ -0,0 +1,161 @@
+import { getPartitionLayout } from "../infrastructure/glue-schema";
+import { TypeMetadata } from "../parsers/schema-parser";
+import {
+  addPartitionPredicates,
+  findUnfilteredInjectedKeys,
+  findUnprunedTables,
+  getTableReferences,
+} from "./partition-pruning";
+import { compileSqlTemplate, getSqlTemplateParams } from "./sql-template";
+
+const layouts = new Map([
+  ["order", getPartitionLayout()],
+  [
+    "product",
+    getPartitionLayout({
+      partition: { by: [], time: "listedAt", granularity: "MONTH" },
+    } as unknown as TypeMetadata),
+  ],
+]);
+
+// Time partition value of an expression, as buildPartitionPredicate renders it
+const partitionValue = (value: string, format: string) =>
+  `date_format(CAST((${value}) AS timestamp with time zone) AT TIME ZONE 'UTC', '${format}')`;
+
+describe("getTableReferences", () => {
+  it("reads tables and aliases, not placeholders named like keywords", () => {
+    expect(
+      getTableReferences(
+        "SELECT * FROM order o JOIN product AS p ON p.id = o.productId WHERE o.createdAt >= $args.from"
+      )
+    ).toEqual([
+      { table: "order", alias: "o" },
+      { table: "product", alias: "p" },
+    ]);
+  });
+});
+
+describe("addPartitionPredicates", () => {
+  it("adds day partition predicates to a time comparison", () => {
+    expect(
+      addPartitionPredicates(
+        "SELECT * FROM order o WHERE o.createdAt >= $args.since",
+        layouts
+      )
+    ).toBe(
+      `SELECT * FROM order o WHERE (o.createdAt >= $args.since AND o.year >= ${partitionValue("$args.since", "%Y")} AND concat(o.year, '-', o.month, '-', o.day) >= ${partitionValue("$args.since", "%Y-%m-%d")})`
+    );
+  });
+
+  it("bounds BETWEEN ranges on both sides", () => {
+    expect(
+      addPartitionPredicates(
+        "SELECT * FROM order WHERE createdAt BETWEEN $args.from AND $args.to LIMIT 10",
+        layouts
+      )
+    ).toBe(
+      `SELECT * FROM order WHERE (createdAt BETWEEN $args.from AND $args.to AND year >= ${partitionValue("$args.from", "%Y")} AND concat(year, '-', month, '-', day) >= ${partitionValue("$args.from", "%Y-%m-%d")} AND year <= ${partitionValue("$args.to", "%Y")} AND concat(year, '-', month, '-', day) <= ${partitionValue("$args.to", "%Y-%m-%d")}) LIMIT 10`
+    );
+  });
+
+  it("uses the @partition time field and granularity", () => {
+    expect(
+      addPartitionPredicates(
+        "SELECT * FROM product p WHERE p.listedAt < $args.until",
+        layouts
+      )
+    ).toBe(
+      `SELECT * FROM product p WHERE (p.listedAt < $args.until AND p.year <= ${partitionValue("$args.until", "%Y")} AND concat(p.year, '-', p.month) <= ${partitionValue("$args.until", "%Y-%m")})`
+    );
+  });
+
+  it("repeats quoted placeholders as literals", () => {
+    const value = "current_date - interval '$args.days' day";
+    const rewritten = addPartitionPredicates(
+      `SELECT * FROM order o WHERE o.createdAt >= ${value}`,
+      layouts
+    );
+    expect(rewritten).toBe(
+      `SELECT * FROM order o WHERE (o.createdAt >= ${value} AND o.year >= ${partitionValue(value, "%Y")} AND concat(o.year, '-', o.month, '-', o.day) >= ${partitionValue(value, "%Y-%m-%d")})`
+    );
+    // Each copy is spliced into its own literal with the same value
+    expect(
+      getSqlTemplateParams(compileSqlTemplate(rewritten)).map((param) => [
+        param.name,
+        param.mode,
+      ])
+    ).toEqual([
+      ["days", "literal"],
+      ["days", "literal"],
+      ["days", "literal"],
+    ]);
+  });
+
+  it("leaves queries without time filters alone", () => {
+    const query = "SELECT * FROM order o WHERE o.total > $args.minTotal";
+    expect(addPartitionPredicates(query, layouts)).toBe(query);
+  });
+});
+
+describe("findUnprunedTables", () => {
+  it("reports joined tables without a time filter", () => {
+    expect(
+      findUnprunedTables(
+        "SELECT * FROM order o JOIN product p ON p.id = o.productId WHERE o.createdAt >= $args.since",
+        layouts
+      )
+    ).toEqual(["product"]);
+  });
+
+  it("accepts filters on the time partition keys", () => {
+    expect(
+      findUnprunedTables("SELECT * FROM order o WHERE o.year = '2025'", layouts)
+    ).toEqual([]);
+  });
+
+  it("ignores time filters inside string literals", () => {
+    expect(
+      findUnprunedTables(
+        "SELECT * FROM order o WHERE o.note = 'o.createdAt >= 1'",
+        layouts
+      )
+    ).toEqual(["order"]);
+  });
+});
+
+describe("findUnfilteredInjectedKeys", () => {
+  const injectedKeys = new Map([["order", ["tenantId"]]]);
+
+  it("reports queries that don't filter the injected key", () => {
+    expect(
+      findUnfilteredInjectedKeys(
+        "SELECT * FROM order o WHERE o.createdAt >= $args.since",
+        injectedKeys
+      )
+    ).toEqual([{ table: "order", key: "tenantId" }]);
+  });
+
+  it("accepts = and IN filters", () => {
+    expect(
+      findUnfilteredInjectedKeys(
+        "SELECT * FROM order WHERE tenantId = $args.tenantId",
+        injectedKeys
+      )
+    ).toEqual([]);
+    expect(
+      findUnfilteredInjectedKeys(
+        "SELECT * FROM order o JOIN product p ON p.id = o.productId WHERE o.tenantId IN $args.tenantIds",
+        injectedKeys
+      )
+    ).toEqual([]);
+  });
+
+  it("ignores range filters and filters inside {{#if}} blocks", () => {
+    expect(
+      findUnfilteredInjectedKeys(
+        "SELECT * FROM order o WHERE o.tenantId >= 'a'{{#if args.tenantId}} AND o.tenantId = $args.tenantId{{/if}}",
+        injectedKeys
+      )
+    ).toEqual([{ table: "order", key: "tenantId" }]);
+  });
+});
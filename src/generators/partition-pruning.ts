@@ -0,0 +1,354 @@
+import { PartitionLayout } from "../infrastructure/glue-schema";
+import { compileSqlTemplate, maskSqlText } from "./sql-template";
+
+/**
+ * Generation-time partition pruning for @sql_query templates on Hive tables
+ *
+ * Athena only skips partitions when a query filters the partition keys, while
+ * queries naturally filter the timestamp the partitions are derived from.
+ * Range predicates on a table's time column (createdAt unless @partition
+ * says otherwise) get an equivalent predicate on the time partition keys:
+ *
+ *   p.createdAt >= X
+ *   (p.createdAt >= X AND p.year >= <year of X> AND
+ *     concat(p.year, '-', p.month, '-', p.day) >= <date of X>)
+ *
+ * The rewrite works on the template text, so placeholders in X are repeated
+ * and bound twice.
+ */
+
+export interface TableReference {
+  table: string;
+  alias?: string;
+}
+
+interface TimePredicate {
+  reference: TableReference;
+  qualifier?: string;
+  start: number;
+  end: number;
+  operator: string;
+  values: string[];
+}
+
+// FROM post p, JOIN "order" AS o, FROM $join_table(post_likes) pl, but not
+// arguments such as $args.from
+const TABLE_REFERENCE_PATTERN =
+  /(?<![\w.$])(?:FROM|JOIN)\s+(\$join_table\(\s*\w+\s*\)|"[^"]+"|\w+)(?:\s+(?:AS\s+)?("[^"]+"|\w+))?/gi;
+
+// Words that can follow a table name without being its alias
+const NON_ALIAS_KEYWORDS = new Set([
+  "where",
+  "join",
+  "inner",
+  "left",
+  "right",
+  "full",
+  "outer",
+  "cross",
+  "on",
+  "using",
+  "group",
+  "order",
+  "having",
+  "limit",
+  "offset",
+  "union",
+  "except",
+  "intersect",
+  "window",
+]);
+
+// Where the value of a comparison ends (outside parentheses)
+const VALUE_BOUNDARY_PATTERN =
+  /^(?:(?:AND|OR|WHERE|GROUP|ORDER|HAVING|LIMIT|OFFSET|UNION|EXCEPT|INTERSECT|WINDOW|JOIN|INNER|LEFT|RIGHT|FULL|CROSS|ON|FROM|WHEN|THEN|ELSE|END)\b|[),;]|\{\{)/i;
+
+const TIME_KEY_FORMATS: Record<string, string> = {
+  year: "%Y",
+  month: "%m",
+  day: "%d",
+  hour: "%H",
+};
+
+function unquote(name: string): string {
+  return name.replace(/^"|"$/g, "");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Tables a query reads, with their aliases
+ */
+export function getTableReferences(query: string): TableReference[] {
+  const masked = maskSqlText(query);
+  const references: TableReference[] = [];
+  for (const match of masked.matchAll(TABLE_REFERENCE_PATTERN)) {
+    const joinTable = match[1].match(/^\$join_table\(\s*(\w+)\s*\)$/);
+    const table = (joinTable ? joinTable[1] : unquote(match[1])).toLowerCase();
+    const alias =
+      match[2] && !NON_ALIAS_KEYWORDS.has(match[2].toLowerCase())
+        ? unquote(match[2])
+        : undefined;
+    references.push({ table, alias });
+  }
+  return references;
+}
+
+/**
+ * End of the value expression starting at index: the first boundary keyword,
+ * closing parenthesis or comma outside parentheses
+ */
+function findValueEnd(masked: string, index: number): number {
+  let depth = 0;
+  let position = index;
+  while (position < masked.length) {
+    const char = masked[position];
+    // Keywords only count as words of their own, not in $args.from
+    const startsWord =
+      position === index || !/[\w.$]/.test(masked[position - 1]);
+    if (char === "(") {
+      depth++;
+    } else if (depth > 0 && char === ")") {
+      depth--;
+    } else if (
+      depth === 0 &&
+      (startsWord || !/\w/.test(char)) &&
+      VALUE_BOUNDARY_PATTERN.test(masked.slice(position))
+    ) {
+      break;
+    }
+    position++;
+  }
+  // Leave trailing whitespace outside the value
+  while (position > index && /\s/.test(masked[position - 1])) {
+    position--;
+  }
+  return position;
+}
+
+/**
+ * Comparisons and BETWEEN ranges on the time column of the partitioned tables
+ * Unqualified columns only count when the query reads a single table
+ */
+function findTimePredicates(
+  query: string,
+  references: TableReference[],
+  layouts: Map<string, PartitionLayout>
+): TimePredicate[] {
+  const masked = maskSqlText(query);
+  const predicates: TimePredicate[] = [];
+
+  for (const reference of references) {
+    const layout = layouts.get(reference.table);
+    if (!layout) {
+      continue;
+    }
+    const qualifier = escapeRegExp(reference.alias || reference.table);
+    const columnPattern = new RegExp(
+      `(?<![\\w."])("?${qualifier}"?\\.)${references.length === 1 ? "?" : ""}"?${escapeRegExp(layout.time)}"?\\s*(>=|<=|<>|>|<|=|\\bBETWEEN\\b)\\s*`,
+      "gi"
+    );
+
+    for (const match of masked.matchAll(columnPattern)) {
+      const start = match.index!;
+      const operator = match[2].toUpperCase();
+      // NOT BETWEEN, NOT <column> ... and <> exclude a range instead of selecting it
+      if (operator === "<>" || /\bNOT\s*$/i.test(masked.slice(0, start))) {
+        continue;
+      }
+      const valueStart = start + match[0].length;
+      const valueEnd = findValueEnd(masked, valueStart);
+      const values = [query.slice(valueStart, valueEnd)];
+      let end = valueEnd;
+
+      if (operator === "BETWEEN") {
+        const and = masked.slice(valueEnd).match(/^\s*AND\s+/i);
+        if (!and) {
+          continue;
+        }
+        const upperStart = valueEnd + and[0].length;
+        end = findValueEnd(masked, upperStart);
+        values.push(query.slice(upperStart, end));
+      }
+
+      // Values that are queries or CASE expressions can't be copied safely
+      if (
+        values.some(
+          (value) =>
+            value.trim().length === 0 || /\b(?:SELECT|CASE)\b/i.test(value)
+        )
+      ) {
+        continue;
+      }
+
+      predicates.push({
+        reference,
+        qualifier: match[1] ? match[1].slice(0, -1) : undefined,
+        start,
+        end,
+        operator,
+        values,
+      });
+    }
+  }
+
+  return predicates.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Predicate on the time partition keys implied by a time column predicate
+ * Values are converted to UTC, like the partition paths the stream processor writes
+ */
+function buildPartitionPredicate(
+  predicate: TimePredicate,
+  layout: PartitionLayout
+): string {
+  const prefix = predicate.qualifier ? `${predicate.qualifier}.` : "";
+  const keyFormat = layout.timeKeys
+    .map((key) => TIME_KEY_FORMATS[key])
+    .join("-");
+  const partitionValue = (value: string, format: string) =>
+    `date_format(CAST((${value.trim()}) AS timestamp with time zone) AT TIME ZONE 'UTC', '${format}')`;
+  const year = `${prefix}year`;
+  const key =
+    layout.timeKeys.length === 1
+      ? year
+      : `concat(${layout.timeKeys.map((k) => `${prefix}${k}`).join(", '-', ")})`;
+
+  // A partition holds a whole hour, day, month or year, so bounds become inclusive
+  const bound = (operator: string, value: string) => {
+    const conditions = [`${year} ${operator} ${partitionValue(value, "%Y")}`];
+    if (layout.timeKeys.length > 1) {
+      conditions.push(`${key} ${operator} ${partitionValue(value, keyFormat)}`);
+    }
+    return conditions.join(" AND ");
+  };
+
+  switch (predicate.operator) {
+    case ">":
+    case ">=":
+      return bound(">=", predicate.values[0]);
+    case "<":
+    case "<=":
+      return bound("<=", predicate.values[0]);
+    case "=":
+      return bound("=", predicate.values[0]);
+    default:
+      return `${bound(">=", predicate.values[0])} AND ${bound("<=", predicate.values[1])}`;
+  }
+}
+
+/**
+ * Add partition key predicates next to the time column predicates of a query
+ */
+export function addPartitionPredicates(
+  query: string,
+  layouts: Map<string, PartitionLayout>
+): string {
+  let rewritten = query;
+  // Rewrite back to front so earlier positions stay valid
+  const references = getTableReferences(query);
+  for (const predicate of findTimePredicates(
+    query,
+    references,
+    layouts
+  ).reverse()) {
+    const layout = layouts.get(predicate.reference.table)!;
+    rewritten =
+      rewritten.slice(0, predicate.start) +
+      "(" +
+      rewritten.slice(predicate.start, predicate.end) +
+      ` AND ${buildPartitionPredicate(predicate, layout)})` +
+      rewritten.slice(predicate.end);
+  }
+  return rewritten;
+}
+
+/**
+ * Partitioned tables a query reads without filtering their time column or
+ * time partition keys, so Athena scans all of their partitions
+ */
+export function findUnprunedTables(
+  query: string,
+  layouts: Map<string, PartitionLayout>
+): string[] {
+  const masked = maskSqlText(query);
+  const references = getTableReferences(query);
+  const filtered = new Set(
+    findTimePredicates(query, references, layouts).map((p) => p.reference)
+  );
+
+  return references
+    .filter((reference) => {
+      const layout = layouts.get(reference.table);
+      if (!layout || filtered.has(reference)) {
+        return false;
+      }
+      // Explicit filters on the time partition keys, e.g. p.year = '2025'
+      return !filtersColumn(
+        masked,
+        reference,
+        references.length === 1,
+        layout.timeKeys,
+        ">=|<=|>|<|=|\\bBETWEEN\\b|\\bIN\\b"
+      );
+    })
+    .map((reference) => reference.table);
+}
+
+/**
+ * Injected partition keys a query doesn't filter with = or IN, by table
+ * Athena can't list the partitions of such a table and rejects the query.
+ * Filters inside {{#if}} blocks don't count, as the block may be left out
+ */
+export function findUnfilteredInjectedKeys(
+  query: string,
+  injectedKeys: Map<string, string[]>
+): { table: string; key: string }[] {
+  const unconditional = compileSqlTemplate(query)
+    .map((node) => {
+      if (node.type === "text") {
+        return node.value;
+      }
+      return node.type === "param" ? `$${node.source}.${node.name}` : "";
+    })
+    .join("");
+  const masked = maskSqlText(unconditional);
+  const references = getTableReferences(unconditional);
+
+  return references.flatMap((reference) =>
+    (injectedKeys.get(reference.table) || [])
+      .filter(
+        (key) =>
+          !filtersColumn(
+            masked,
+            reference,
+            references.length === 1,
+            [key],
+            "=(?!=)|\\bIN\\b"
+          )
+      )
+      .map((key) => ({ table: reference.table, key }))
+  );
+}
+
+/**
+ * Whether masked SQL compares one of the columns of a table with one of the
+ * operators; columns of the only table may be unqualified
+ */
+function filtersColumn(
+  masked: string,
+  reference: TableReference,
+  onlyTable: boolean,
+  columns: string[],
+  operators: string
+): boolean {
+  const qualifier = escapeRegExp(reference.alias || reference.table);
+  const pattern = new RegExp(
+    `(?<![\\w"])(?:"?${qualifier}"?\\.)${onlyTable ? "?" : ""}"?(?:${columns.join("|")})"?\\s*(?:${operators})`,
+    "i"
+  );
+  return pattern.test(masked);
+}
@@ -0,0 +1,172 @@
+import {
+  bindSqlParameters,
+  compileSqlTemplate,
+  getSqlTemplateConditions,
+  getSqlTemplateParams,
+  maskSqlText,
+} from "./sql-template";
+
+describe("compileSqlTemplate", () => {
+  it("binds placeholders in SQL code and splices quoted ones", () => {
+    expect(
+      compileSqlTemplate(
+        `SELECT * FROM t WHERE id = $args.id AND note LIKE '%$args.term%' AND "$source.column" = 1`
+      )
+    ).toEqual([
+      { type: "text", value: "SELECT * FROM t WHERE id = " },
+      { type: "param", source: "args", name: "id", mode: "bind" },
+      { type: "text", value: " AND note LIKE '%" },
+      { type: "param", source: "args", name: "term", mode: "literal" },
+      { type: "text", value: `%' AND "` },
+      { type: "param", source: "source", name: "column", mode: "identifier" },
+      { type: "text", value: `" = 1` },
+    ]);
+  });
+
+  it("reads identity claims", () => {
+    expect(
+      getSqlTemplateParams(
+        compileSqlTemplate(
+          "SELECT * FROM t WHERE tenant = $identity.claims.custom:tenantId"
+        )
+      )
+    ).toEqual([
+      {
+        type: "param",
+        source: "identity",
+        name: "claims.custom:tenantId",
+        mode: "bind",
+      },
+    ]);
+  });
+
+  it("stays inside literals and identifiers with escaped quotes", () => {
+    const params = getSqlTemplateParams(
+      compileSqlTemplate(
+        `SELECT 'it''s $args.a', "x""$args.b" FROM t WHERE c = $args.c`
+      )
+    );
+    expect(params.map((param) => [param.name, param.mode])).toEqual([
+      ["a", "literal"],
+      ["b", "identifier"],
+      ["c", "bind"],
+    ]);
+  });
+
+  it("marks IN list placeholders with and without parentheses", () => {
+    const params = getSqlTemplateParams(
+      compileSqlTemplate(
+        "SELECT * FROM t WHERE a IN $args.ids AND b in ( $args.names ) AND c = $args.c"
+      )
+    );
+    expect(params.map((param) => [param.name, param.inClause])).toEqual([
+      ["ids", "bare"],
+      ["names", "parenthesized"],
+      ["c", undefined],
+    ]);
+  });
+
+  it("does not treat quoted IN lists as parameter lists", () => {
+    const [param] = getSqlTemplateParams(
+      compileSqlTemplate("SELECT * FROM t WHERE a IN ('$args.id')")
+    );
+    expect(param).toMatchObject({ mode: "literal" });
+    expect(param.inClause).toBeUndefined();
+  });
+
+  it("ignores placeholders in comments", () => {
+    const params = getSqlTemplateParams(
+      compileSqlTemplate(
+        "SELECT * FROM t -- $args.a\nWHERE b = $args.b /* $args.c */ AND d = 1"
+      )
+    );
+    expect(params.map((param) => param.name)).toEqual(["b"]);
+  });
+});
+
+describe("compileSqlTemplate {{#if}} blocks", () => {
+  it("nests blocks", () => {
+    const nodes = compileSqlTemplate(
+      "SELECT * FROM t WHERE 1 = 1{{#if args.a}} AND a = $args.a{{#if args.b}} AND b = $args.b{{/if}}{{/if}}"
+    );
+    expect(nodes).toEqual([
+      { type: "text", value: "SELECT * FROM t WHERE 1 = 1" },
+      {
+        type: "if",
+        argument: "a",
+        children: [
+          { type: "text", value: " AND a = " },
+          { type: "param", source: "args", name: "a", mode: "bind" },
+          {
+            type: "if",
+            argument: "b",
+            children: [
+              { type: "text", value: " AND b = " },
+              { type: "param", source: "args", name: "b", mode: "bind" },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(getSqlTemplateConditions(nodes)).toEqual(["a", "b"]);
+  });
+
+  it("rejects a stray {{/if}}", () => {
+    expect(() => compileSqlTemplate("SELECT 1 {{/if}}")).toThrow(
+      "Found {{/if}} without a matching {{#if}}"
+    );
+  });
+
+  it("rejects an unclosed block", () => {
+    expect(() =>
+      compileSqlTemplate("SELECT 1 {{#if args.a}} WHERE a = $args.a")
+    ).toThrow("Unclosed {{#if args.a}} block");
+  });
+
+  it("rejects unknown tags", () => {
+    expect(() => compileSqlTemplate("SELECT 1 {{#each args.a}}")).toThrow(
+      "Invalid template tag"
+    );
+  });
+
+  it("leaves braces inside string literals alone", () => {
+    expect(compileSqlTemplate("SELECT '{{#if args.a}}' AS x")).toEqual([
+      { type: "text", value: "SELECT '{{#if args.a}}' AS x" },
+    ]);
+  });
+});
+
+describe("bindSqlParameters", () => {
+  it("replaces markers in SQL code only", () => {
+    expect(
+      bindSqlParameters(`SELECT ?, '?', "?" -- ?\nFROM t WHERE a = ?`, [
+        "1",
+        "'x'",
+      ])
+    ).toBe(`SELECT 1, '?', "?" -- ?\nFROM t WHERE a = 'x'`);
+  });
+
+  it("rejects more markers than parameters", () => {
+    expect(() => bindSqlParameters("SELECT ?, ?", ["1"])).toThrow(
+      "Query has more parameter markers than the 1 execution parameters provided"
+    );
+  });
+
+  it("rejects more parameters than markers", () => {
+    expect(() => bindSqlParameters("SELECT ?", ["1", "2"])).toThrow(
+      "Query has 1 parameter markers but 2 execution parameters were provided"
+    );
+  });
+});
+
+describe("maskSqlText", () => {
+  it("masks literal text and keeps the quotes", () => {
+    expect(maskSqlText("SELECT 'a''b' AS x")).toBe("SELECT '#''#' AS x");
+  });
+
+  it("blanks comments and keeps positions", () => {
+    expect(maskSqlText("a -- from\nb /* from */ c")).toBe(
+      `a        \nb ${" ".repeat(10)} c`
+    );
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Generation-time compiler for @sql_query templates
+ *
+ * Placeholders ($args.x, $source.x, $identity.x) in SQL code become positional
+ * "?" parameters whose values the generated handlers pass to Athena as
+ * ExecutionParameters. Placeholders inside quoted literals or identifiers
+ * (e.g. interval '$args.days' day) cannot be parameters, so they are spliced
+ * with escaping at runtime instead.
+ *
+ * {{#if args.x}} ... {{/if}} blocks wrap SQL that only applies when an
+ * optional argument is provided.
+ */
+
+export type SqlPlaceholderSource = "args" | "source" | "identity";
+
+/**
+ * bind: "?" parameter, literal: spliced into a '...' literal,
+ * identifier: spliced into a "..." identifier
+ */
+export type SqlPlaceholderMode = "bind" | "literal" | "identifier";
+
+export interface SqlTextNode {
+  type: "text";
+  value: string;
+}
+
+export interface SqlParamNode {
+  type: "param";
+  source: SqlPlaceholderSource;
+  name: string;
+  mode: SqlPlaceholderMode;
+  /**
+   * Set when the placeholder is an IN list: "bare" for IN $args.ids, which
+   * expands to (a, b), "parenthesized" for IN ($args.ids), which expands to a, b
+   */
+  inClause?: "bare" | "parenthesized";
+}
+
+/**
+ * {{#if args.name}} ... {{/if}} block, rendered only when the argument is set
+ */
+export interface SqlConditionalNode {
+  type: "if";
+  argument: string;
+  children: SqlTemplateNode[];
+}
+
+export type SqlTemplateNode = SqlTextNode | SqlParamNode | SqlConditionalNode;
+
+type ScanState =
+  | "code"
+  | "literal"
+  | "identifier"
+  | "lineComment"
+  | "blockComment";
+
+// $args.name / $source.name / $identity.sub / $identity.claims.custom:tenantId
+const PLACEHOLDER_PATTERN =
+  /^\$(args|source|identity)\.((?:claims\.)?[A-Za-z_][\w:]*)/;
+
+// {{#if args.name}} or {{/if}}
+const BLOCK_TAG_PATTERN = /^\{\{\s*(?:#if\s+args\.([A-Za-z_]\w*)|\/if)\s*\}\}/;
+
+const BARE_IN_PATTERN = /\bIN\s*$/i;
+const PARENTHESIZED_IN_PATTERN = /\bIN\s*\(\s*$/i;
+
+/**
+ * Walk SQL text, reporting each character's lexical state
+ * Returns the number of characters consumed when the callback handles a match
+ */
+function scanSql(
+  sql: string,
+  visit: (index: number, state: ScanState) => number
+): void {
+  let state: ScanState = "code";
+  let index = 0;
+
+  while (index < sql.length) {
+    const consumed = visit(index, state);
+    if (consumed > 0) {
+      index += consumed;
+      continue;
+    }
+
+    const char = sql[index];
+    const next = sql[index + 1];
+    switch (state) {
+      case "code":
+        if (char === "'") state = "literal";
+        else if (char === '"') state = "identifier";
+        else if (char === "-" && next === "-") state = "lineComment";
+        else if (char === "/" && next === "*") state = "blockComment";
+        break;
+      case "literal":
+        if (char === "'") {
+          // '' is an escaped quote inside the literal
+          if (next === "'") index++;
+          else state = "code";
+        }
+        break;
+      case "identifier":
+        if (char === '"') {
+          if (next === '"') index++;
+          else state = "code";
+        }
+        break;
+      case "lineComment":
+        if (char === "\n") state = "code";
+        break;
+      case "blockComment":
+        if (char === "*" && next === "/") {
+          index++;
+          state = "code";
+        }
+        break;
+    }
+    index++;
+  }
+}
+
+/**
+ * Compile an @sql_query template into text, parameter and conditional nodes
+ * Throws on malformed or unbalanced {{#if}} blocks
+ */
+export function compileSqlTemplate(query: string): SqlTemplateNode[] {
+  const root: SqlTemplateNode[] = [];
+  const openBlocks: SqlConditionalNode[] = [];
+  let nodes = root;
+  let textStart = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      nodes.push({ type: "text", value: query.slice(textStart, end) });
+    }
+  };
+
+  scanSql(query, (index, state) => {
+    if (state === "code" && query.startsWith("{{", index)) {
+      const tag = query.slice(index).match(BLOCK_TAG_PATTERN);
+      if (!tag) {
+        throw new Error(
+          `Invalid template tag near "${query.slice(index, index + 30)}". Use {{#if args.<name>}} ... {{/if}}`
+        );
+      }
+      pushText(index);
+      if (tag[1]) {
+        const block: SqlConditionalNode = {
+          type: "if",
+          argument: tag[1],
+          children: [],
+        };
+        nodes.push(block);
+        openBlocks.push(block);
+        nodes = block.children;
+      } else {
+        if (!openBlocks.pop()) {
+          throw new Error("Found {{/if}} without a matching {{#if}}");
+        }
+        nodes =
+          openBlocks.length > 0
+            ? openBlocks[openBlocks.length - 1].children
+            : root;
+      }
+      textStart = index + tag[0].length;
+      return tag[0].length;
+    }
+
+    if (
+      query[index] !== "$" ||
+      state === "lineComment" ||
+      state === "blockComment"
+    ) {
+      return 0;
+    }
+    const match = query.slice(index).match(PLACEHOLDER_PATTERN);
+    if (!match) {
+      return 0;
+    }
+
+    pushText(index);
+    const node: SqlParamNode = {
+      type: "param",
+      source: match[1] as SqlPlaceholderSource,
+      name: match[2],
+      mode:
+        state === "literal"
+          ? "literal"
+          : state === "identifier"
+            ? "identifier"
+            : "bind",
+    };
+    if (node.mode === "bind") {
+      const preceding = query.slice(0, index);
+      if (BARE_IN_PATTERN.test(preceding)) {
+        node.inClause = "bare";
+      } else if (PARENTHESIZED_IN_PATTERN.test(preceding)) {
+        node.inClause = "parenthesized";
+      }
+    }
+    nodes.push(node);
+    textStart = index + match[0].length;
+    return match[0].length;
+  });
+
+  pushText(query.length);
+  if (openBlocks.length > 0) {
+    throw new Error(
+      `Unclosed {{#if args.${openBlocks[openBlocks.length - 1].argument}}} block`
+    );
+  }
+  return root;
+}
+
+/**
+ * All placeholders used by a compiled template, including those in {{#if}} blocks
+ */
+export function getSqlTemplateParams(nodes: SqlTemplateNode[]): SqlParamNode[] {
+  return nodes.flatMap((node) =>
+    node.type === "param"
+      ? [node]
+      : node.type === "if"
+        ? getSqlTemplateParams(node.children)
+        : []
+  );
+}
+
+/**
+ * Arguments tested by {{#if}} blocks
+ */
+export function getSqlTemplateConditions(nodes: SqlTemplateNode[]): string[] {
+  return nodes.flatMap((node) =>
+    node.type === "if"
+      ? [node.argument, ...getSqlTemplateConditions(node.children)]
+      : []
+  );
+}
+
+/**
+ * Substitute "?" markers in SQL code with execution parameter values
+ * Used by the local Athena stand-in, which mirrors Athena's positional binding
+ */
+export function bindSqlParameters(sql: string, parameters: string[]): string {
+  let bound = "";
+  let position = 0;
+  let textStart = 0;
+
+  scanSql(sql, (index, state) => {
+    if (sql[index] !== "?" || state !== "code") {
+      return 0;
+    }
+    if (position >= parameters.length) {
+      throw new Error(
+        `Query has more parameter markers than the ${parameters.length} execution parameters provided`
+      );
+    }
+    bound += sql.slice(textStart, index) + parameters[position++];
+    textStart = index + 1;
+    return 1;
+  });
+
+  if (position !== parameters.length) {
+    throw new Error(
+      `Query has ${position} parameter markers but ${parameters.length} execution parameters were provided`
+    );
+  }
+  return bound + sql.slice(textStart);
+}
+
+/**
+ * Mask the text of quoted literals (with #) and comments (with spaces),
+ * keeping character positions and the quotes around literals
+ * Lets callers match SQL keywords and columns without hitting literal text
+ */
+export function maskSqlText(sql: string): string {
+  const states: ScanState[] = [];
+  scanSql(sql, (index, state) => {
+    states[index] = state;
+    return 0;
+  });
+
+  const isComment = (state?: ScanState) =>
+    state === "lineComment" || state === "blockComment";
+  const masked = sql.split("");
+  let state: ScanState = "code";
+  for (let index = 0; index < sql.length; index++) {
+    // The scanner steps over escaped '' quotes and the / closing a block comment
+    state = states[index] ?? state;
+    if (state === "literal" && sql[index] !== "'") {
+      masked[index] = "#";
+    } else if (
+      (isComment(state) || isComment(states[index + 1])) &&
+      sql[index] !== "\n"
+    ) {
+      masked[index] = " ";
+    }
+  }
+  return masked.join("");
+}
@@ -0,0 +1,247 @@
+import {
+  PartitionGranularity,
+  SchemaMetadata,
+  TypeMetadata,
+} from "../parsers/schema-parser";
+
+export interface GlueColumn {
+  name: string;
+  type: string;
+}
+
+/**
+ * Table format of the analytics lake
+ * hive: one Parquet file per row under date (or @partition) partitions
+ * iceberg: Apache Iceberg tables the stream processor MERGEs changes into
+ */
+export type TableFormat = "hive" | "iceberg";
+
+/**
+ * Parse the --table-format option
+ */
+export function parseTableFormat(value: string | undefined): TableFormat {
+  const format = (value || "hive").toLowerCase();
+  if (format !== "hive" && format !== "iceberg") {
+    throw new Error(`Invalid table format: ${value}. Use "hive" or "iceberg"`);
+  }
+  return format;
+}
+
+/**
+ * Partition layout of a table: the @partition fields, then the time keys
+ * derived from the time field, e.g. tenantId=acme/year=2025/month=06/day=15
+ */
+export interface PartitionLayout {
+  by: string[];
+  time: string;
+  granularity: PartitionGranularity;
+  timeKeys: string[];
+  keys: string[];
+}
+
+const TIME_PARTITION_KEYS: Record<PartitionGranularity, string[]> = {
+  YEAR: ["year"],
+  MONTH: ["year", "month"],
+  DAY: ["year", "month", "day"],
+  HOUR: ["year", "month", "day", "hour"],
+};
+
+/**
+ * Partition layout of an entity table, or of a join table when no type is given
+ * Tables without @partition keep the year/month/day layout of createdAt
+ */
+export function getPartitionLayout(type?: TypeMetadata): PartitionLayout {
+  const by = type?.partition?.by || [];
+  const granularity = type?.partition?.granularity || "DAY";
+  const timeKeys = TIME_PARTITION_KEYS[granularity];
+  return {
+    by,
+    time: type?.partition?.time || "createdAt",
+    granularity,
+    timeKeys,
+    keys: [...by, ...timeKeys],
+  };
+}
+
+/**
+ * @partition fields of a Hive table that use injected partition projection:
+ * Athena only finds their partitions from = or IN filters in the query.
+ * Enum fields are projected from their values instead
+ */
+export function getInjectedPartitionKeys(
+  type: TypeMetadata,
+  schemaMetadata: SchemaMetadata
+): string[] {
+  return (type.partition?.by || []).filter((fieldName) => {
+    const fieldType = type.fields.find((f) => f.name === fieldName)?.type;
+    return !schemaMetadata.enums.some((e) => e.name === fieldType);
+  });
+}
+
+/**
+ * Partition layouts of all entity and join tables, by table name
+ */
+export function getTablePartitionLayouts(
+  schemaMetadata: SchemaMetadata
+): Map<string, PartitionLayout> {
+  const layouts = new Map<string, PartitionLayout>();
+  for (const type of schemaMetadata.types) {
+    if (!type.isPrimitive && !type.isTaskResponse) {
+      layouts.set(type.name.toLowerCase(), getPartitionLayout(type));
+    }
+  }
+  for (const joinTable of schemaMetadata.joinTables) {
+    layouts.set(joinTable.toLowerCase(), getPartitionLayout());
+  }
+  return layouts;
+}
+
+/**
+ * Map GraphQL field type to Glue column type
+ */
+export function mapGraphQLTypeToGlueType(graphQLType: string): string {
+  // Remove list and non-null markers
+  const baseType = graphQLType.replace(/[\[\]!]/g, "").trim();
+
+  switch (baseType) {
+    case "String":
+    case "ID":
+      return "string";
+    case "Int":
+      return "bigint";
+    case "Float":
+      return "double";
+    case "Boolean":
+      return "boolean";
+    case "AWSDateTime":
+      return "timestamp";
+    default:
+      // For custom types and enums, default to string
+      return "string";
+  }
+}
+
+/**
+ * Internal DynamoDB attributes that never become analytics columns
+ */
+function isInternalField(fieldName: string): boolean {
+  return (
+    fieldName === "PK" ||
+    fieldName === "SK" ||
+    fieldName === "GSI1-PK" ||
+    fieldName === "GSI1-SK" ||
+    fieldName === "entityType" ||
+    fieldName === "entityId" ||
+    fieldName.startsWith("_partition_")
+  );
+}
+
+/**
+ * Columns of the Parquet table backing an entity type
+ */
+export function getEntityTableColumns(type: TypeMetadata): GlueColumn[] {
+  // Extract columns from GraphQL type fields
+  const columns: GlueColumn[] = [];
+  for (const field of type.fields) {
+    // Skip internal fields
+    if (isInternalField(field.name)) {
+      continue;
+    }
+
+    columns.push({
+      name: field.name,
+      type: mapGraphQLTypeToGlueType(field.type),
+    });
+  }
+
+  // Add the owner attribute written for @auth owner rules
+  const ownerRule = type.authRules?.find((rule) => rule.allow === "owner");
+  const ownerField = ownerRule ? ownerRule.ownerField || "owner" : undefined;
+  if (ownerField && !columns.some((c) => c.name === ownerField)) {
+    columns.push({ name: ownerField, type: "string" });
+  }
+
+  // Add standard timestamp fields if not already present
+  if (!columns.some((c) => c.name === "createdAt")) {
+    columns.push({ name: "createdAt", type: "timestamp" });
+  }
+  if (!columns.some((c) => c.name === "updatedAt")) {
+    columns.push({ name: "updatedAt", type: "timestamp" });
+  }
+
+  return columns;
+}
+
+/**
+ * Columns of the Parquet table backing a join table
+ * Derived from the INSERT statements that write to it
+ */
+export function getJoinTableColumns(
+  joinTable: string,
+  schemaMetadata: SchemaMetadata
+): GlueColumn[] {
+  const columns: GlueColumn[] = [];
+
+  // Find mutations that use this join table
+  for (const mutation of schemaMetadata.mutations) {
+    if (!mutation.sqlQuery?.query) {
+      continue;
+    }
+    const query = mutation.sqlQuery.query;
+
+    // Check if this mutation uses the current join table
+    const joinTableMatch = query.match(/\$join_table\(([^)]+)\)/);
+    if (
+      !joinTableMatch ||
+      joinTableMatch[1].toLowerCase() !== joinTable.toLowerCase()
+    ) {
+      continue;
+    }
+
+    // Extract column definitions from INSERT statement
+    // Pattern: INSERT INTO $join_table(table) (col1:Type1, col2:Type2) VALUES ...
+    const insertMatch = query.match(
+      /INSERT\s+INTO\s+\$join_table\([^)]+\)\s*\(([^)]+)\)/i
+    );
+    if (!insertMatch) {
+      continue;
+    }
+
+    const columnDefs = insertMatch[1].split(",").map((col) => col.trim());
+
+    // Parse each column definition (e.g., "userId:User" -> columnName: "userId")
+    for (const colDef of columnDefs) {
+      const parts = colDef.split(":");
+      if (parts.length !== 2) {
+        continue;
+      }
+      const columnName = parts[0].trim();
+
+      // Only add if not already added (avoid duplicates)
+      if (columns.some((c) => c.name === columnName)) {
+        continue;
+      }
+
+      // Find the column type from mutation arguments
+      // If argument not found, default to string (ID types)
+      const arg = mutation.arguments?.find((a) => a.name === columnName);
+      columns.push({
+        name: columnName,
+        type: arg ? mapGraphQLTypeToGlueType(arg.type) : "string",
+      });
+    }
+  }
+
+  // Add standard join table columns
+  if (!columns.some((c) => c.name === "relationId")) {
+    columns.unshift({ name: "relationId", type: "string" });
+  }
+  if (!columns.some((c) => c.name === "s3Key")) {
+    columns.push({ name: "s3Key", type: "string" });
+  }
+  if (!columns.some((c) => c.name === "createdAt")) {
+    columns.push({ name: "createdAt", type: "timestamp" });
+  }
+
+  return columns;
+}
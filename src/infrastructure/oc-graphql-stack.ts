@@ -16,13 +16,33 @@ import * as glue from "aws-cdk-lib/aws-glue";
 import * as events from "aws-cdk-lib/aws-events";
 import * as targets from "aws-cdk-lib/aws-events-targets";
 import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as cognito from "aws-cdk-lib/aws-cognito";
 import { Provider } from "aws-cdk-lib/custom-resources";
 import { CustomResource } from "aws-cdk-lib";
 import {
   DynamoEventSource,
   SqsEventSource,
 } from "aws-cdk-lib/aws-lambda-event-sources";
-import { SchemaMetadata } from "../parsers/schema-parser";
+import { SchemaMetadata, TypeMetadata } from "../parsers/schema-parser";
+import {
+  GlueColumn,
+  PartitionLayout,
+  TableFormat,
+  getEntityTableColumns,
+  getJoinTableColumns,
+  getPartitionLayout,
+} from "./glue-schema";
+import {
+  NOTIFY_TASK_COMPLETED_RESOLVER,
+  createEntitySubscriptionResolver,
+  createTaskCompletedSubscriptionResolver,
+} from "./subscription-resolvers";
+import {
+  AuthConfig,
+  AuthMode,
+  DEFAULT_AUTH_CONFIG,
+} from "../utils/auth-config";
 import * as path from "path";
 import * as crypto from "crypto";
 
@@ -35,44 +55,26 @@ function generateShortHash(input: string): string {
   return hash.substring(0, 16);
 }
 
-/**
- * Map GraphQL field type to Glue column type
- */
-function mapGraphQLTypeToGlueType(graphQLType: string): string {
-  // Remove list and non-null markers
-  const baseType = graphQLType.replace(/[\[\]!]/g, "").trim();
-
-  switch (baseType) {
-    case "String":
-    case "ID":
-      return "string";
-    case "Int":
-      return "bigint";
-    case "Float":
-      return "double";
-    case "Boolean":
-      return "boolean";
-    case "AWSDateTime":
-      return "timestamp";
-    default:
-      // For custom types, default to string
-      return "string";
-  }
-}
-
 export interface OcGraphQLStackProps extends StackProps {
   projectName: string;
   schemaMetadata: SchemaMetadata;
   generatedCodePath: string;
+  authConfig?: AuthConfig;
+  // Publish entity and join relation changes to a project EventBridge bus
+  domainEvents?: boolean;
+  // Analytics table format (default hive)
+  tableFormat?: TableFormat;
 }
 
 export class OcGraphQLStack extends Stack {
   private readonly projectName: string;
+  private subscriptionDataSource?: appsync.NoneDataSource;
 
   constructor(scope: Construct, id: string, props: OcGraphQLStackProps) {
     super(scope, id, props);
 
     const { projectName, schemaMetadata, generatedCodePath } = props;
+    const authConfig = props.authConfig || DEFAULT_AUTH_CONFIG;
     this.projectName = projectName;
 
     // Check if storage should be retained (from context)
@@ -90,15 +92,24 @@ export class OcGraphQLStack extends Stack {
       stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
       removalPolicy: storagePolicy,
       pointInTimeRecovery: true, // Enable for data protection
+      timeToLiveAttribute: "cacheExpiresAt", // Expires taskCache# items
     });
 
     // Add GSI1 for join relation queries (GSI1-PK: joinRelation#relationId, GSI1-SK: joinRelation#entityType#entityId)
+    // and task listing (GSI1-PK: task#owner#principal, GSI1-SK: createdAt)
     table.addGlobalSecondaryIndex({
       indexName: "GSI1",
       partitionKey: { name: "GSI1-PK", type: dynamodb.AttributeType.STRING },
       sortKey: { name: "GSI1-SK", type: dynamodb.AttributeType.STRING },
     });
 
+    // Add GSI2 for listing entities of a type (entityType + createdAt)
+    table.addGlobalSecondaryIndex({
+      indexName: "GSI2",
+      partitionKey: { name: "entityType", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "createdAt", type: dynamodb.AttributeType.STRING },
+    });
+
     // S3 Bucket for data lake
     const dataBucket = new s3.Bucket(this, "DataBucket", {
       bucketName: `ocg-${projectName.toLowerCase()}-${this.account}`,
@@ -138,12 +149,13 @@ export class OcGraphQLStack extends Stack {
         path.join(generatedCodePath, "processed-schema.graphql")
       ),
       authorizationConfig: {
-        defaultAuthorization: {
-          authorizationType: appsync.AuthorizationType.API_KEY,
-          apiKeyConfig: {
-            expires: Expiration.after(Duration.days(365)),
-          },
-        },
+        defaultAuthorization: this.createAuthorizationMode(
+          authConfig.defaultMode,
+          authConfig
+        ),
+        additionalAuthorizationModes: authConfig.additionalModes.map((mode) =>
+          this.createAuthorizationMode(mode, authConfig)
+        ),
       },
     });
 
@@ -168,7 +180,7 @@ export class OcGraphQLStack extends Stack {
                 "dynamodb:Query",
                 "dynamodb:Scan",
               ],
-              resources: [table.tableArn],
+              resources: [table.tableArn, `${table.tableArn}/index/*`],
             }),
           ],
         }),
@@ -240,15 +252,37 @@ export class OcGraphQLStack extends Stack {
     });
 
     // SQS Queue for deletion tasks (DELETE SQL operations)
+    // Iceberg deletion tasks delete the rows in Athena and need no listener
+    const isIceberg = props.tableFormat === "iceberg";
     const hasDeleteMutations = schemaMetadata.mutations.some((m) => {
       const query = m.sqlQuery?.query.trim().toUpperCase() || "";
       return query.startsWith("DELETE");
     });
-    const deletionQueue = hasDeleteMutations
-      ? new sqs.Queue(this, "DeletionQueue", {
-          queueName: `${projectName}-deletion`,
-          visibilityTimeout: Duration.minutes(15),
-          retentionPeriod: Duration.days(14),
+    const deletionQueue =
+      hasDeleteMutations && !isIceberg
+        ? new sqs.Queue(this, "DeletionQueue", {
+            queueName: `${projectName}-deletion`,
+            visibilityTimeout: Duration.minutes(15),
+            retentionPeriod: Duration.days(14),
+          })
+        : undefined;
+
+    // SQS Queue for task completion webhooks (triggerTask*(callbackUrl: ...))
+    // Deliveries that keep failing end up in the dead-letter queue
+    const hasTasks =
+      schemaMetadata.queries.some((q) => q.isTask) || hasDeleteMutations;
+    const webhookQueue = hasTasks
+      ? new sqs.Queue(this, "WebhookQueue", {
+          queueName: `${projectName}-webhook`,
+          visibilityTimeout: Duration.minutes(2),
+          retentionPeriod: Duration.days(4),
+          deadLetterQueue: {
+            queue: new sqs.Queue(this, "WebhookDeadLetterQueue", {
+              queueName: `${projectName}-webhook-dlq`,
+              retentionPeriod: Duration.days(14),
+            }),
+            maxReceiveCount: 5,
+          },
         })
       : undefined;
 
@@ -261,11 +295,19 @@ export class OcGraphQLStack extends Stack {
       CASCADE_DELETION_QUEUE_URL: cascadeDeletionQueue.queueUrl,
     };
 
+    if (!isIceberg) {
+      commonEnvironment.COMPACTOR_FUNCTION_NAME = `OCG-${projectName}-parquet-compactor`;
+    }
+
     // Add DELETION_QUEUE_URL if deletion queue exists
     if (deletionQueue) {
       commonEnvironment.DELETION_QUEUE_URL = deletionQueue.queueUrl;
     }
 
+    if (webhookQueue) {
+      commonEnvironment.WEBHOOK_QUEUE_URL = webhookQueue.queueUrl;
+    }
+
     const lambdaFunctions = this.createLambdaFunctions(
       schemaMetadata,
       projectName,
@@ -280,6 +322,7 @@ export class OcGraphQLStack extends Stack {
 
     // Create AppSync resolvers
     this.createAppSyncResolvers(api, lambdaFunctions, schemaMetadata);
+    this.createEntitySubscriptionResolvers(api, schemaMetadata);
 
     // Create Glue tables for all entity types and join tables (after lambdaRole is created)
     this.createGlueTables(
@@ -287,10 +330,21 @@ export class OcGraphQLStack extends Stack {
       dataBucket,
       schemaMetadata,
       projectName,
-      lambdaRole
+      lambdaRole,
+      props.tableFormat || "hive",
+      `s3://${athenaResultsBucket.bucketName}/ddl-results/`
+    );
+
+    // AWS managed layer with pandas, pyarrow, and other data libraries
+    const pandasLayer = lambda.LayerVersion.fromLayerVersionArn(
+      this,
+      "PandasLayer",
+      `arn:aws:lambda:${this.region}:336392948345:layer:AWSSDKPandas-Python311:8`
     );
 
     // DynamoDB Stream processor (Python with Parquet support)
+    // With Iceberg tables it only runs Athena MERGEs, so it needs no pandas layer
+    // and takes larger batches: each MERGE commits a snapshot with new data files
     // No hash needed - created once per project, won't hit 64 char limit
     const streamProcessor = new lambda.Function(this, "StreamProcessor", {
       functionName: `OCG-${projectName}-stream-processor`,
@@ -300,21 +354,15 @@ export class OcGraphQLStack extends Stack {
       role: lambdaRole,
       environment: commonEnvironment,
       timeout: Duration.minutes(5),
-      memorySize: 1024,
-      layers: [
-        // AWS managed layer with pandas, pyarrow, and other data libraries
-        lambda.LayerVersion.fromLayerVersionArn(
-          this,
-          "PandasLayer",
-          `arn:aws:lambda:${this.region}:336392948345:layer:AWSSDKPandas-Python311:8`
-        ),
-      ],
+      memorySize: isIceberg ? 256 : 1024,
+      layers: isIceberg ? [] : [pandasLayer],
     });
 
     streamProcessor.addEventSource(
       new DynamoEventSource(table, {
         startingPosition: lambda.StartingPosition.LATEST,
-        batchSize: 10,
+        batchSize: isIceberg ? 1000 : 10,
+        maxBatchingWindow: isIceberg ? Duration.seconds(30) : undefined,
         retryAttempts: 3,
       })
     );
@@ -322,6 +370,102 @@ export class OcGraphQLStack extends Stack {
     // Grant stream processor permission to send messages to SQS
     cascadeDeletionQueue.grantSendMessages(streamProcessor);
 
+    if (isIceberg) {
+      // Iceberg optimizer: bin-packs each table's small files and expires old snapshots
+      // No hash needed - created once per project, won't hit 64 char limit
+      const icebergOptimizer = new lambda.Function(this, "IcebergOptimizer", {
+        functionName: `OCG-${projectName}-iceberg-optimizer`,
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: `ocg-${projectName}-iceberg-optimizer.handler`,
+        code: lambda.Code.fromAsset(generatedCodePath),
+        role: lambdaRole,
+        environment: commonEnvironment,
+        timeout: Duration.minutes(15),
+      });
+
+      new events.Rule(this, "IcebergOptimizeSchedule", {
+        schedule: events.Schedule.cron({ minute: "0", hour: "3" }),
+        description:
+          "OPTIMIZE and VACUUM the Iceberg tables the stream processor merges into",
+        targets: [
+          new targets.LambdaFunction(icebergOptimizer, { retryAttempts: 2 }),
+        ],
+      });
+    } else {
+      // Parquet compactor: merges the stream processor's one-row files per day partition
+      // No hash needed - created once per project, won't hit 64 char limit
+      const parquetCompactor = new lambda.Function(this, "ParquetCompactor", {
+        functionName: `OCG-${projectName}-parquet-compactor`,
+        runtime: lambda.Runtime.PYTHON_3_11,
+        handler: `ocg-${projectName}-parquet-compactor.lambda_handler`,
+        code: lambda.Code.fromAsset(generatedCodePath),
+        role: lambdaRole,
+        environment: commonEnvironment,
+        timeout: Duration.minutes(15),
+        memorySize: 3008,
+        layers: [pandasLayer],
+      });
+
+      // Nightly, after the previous day's partitions stopped receiving new rows
+      new events.Rule(this, "ParquetCompactionSchedule", {
+        schedule: events.Schedule.cron({ minute: "0", hour: "3" }),
+        description:
+          "Merge the previous days' one-row Parquet files into a few large files per partition",
+        targets: [
+          new targets.LambdaFunction(parquetCompactor, { retryAttempts: 2 }),
+        ],
+      });
+
+      // The deletion listeners hand deletions in compacted partitions to the compactor
+      // (by name - a grant referencing the function would make the shared role depend on it)
+      lambdaRole.addToPolicy(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ["lambda:InvokeFunction"],
+          resources: [
+            `arn:aws:lambda:${this.region}:${this.account}:function:OCG-${projectName}-parquet-compactor`,
+          ],
+        })
+      );
+    }
+
+    // Domain events: a second stream consumer publishes entity changes to EventBridge
+    if (props.domainEvents) {
+      const domainEventBus = new events.EventBus(this, "DomainEventBus", {
+        eventBusName: `OCG-${projectName}-events`,
+      });
+
+      // No hash needed - created once per project, won't hit 64 char limit
+      const domainEventPublisher = new lambda.Function(
+        this,
+        "DomainEventPublisher",
+        {
+          functionName: `OCG-${projectName}-domain-event-publisher`,
+          runtime: lambda.Runtime.NODEJS_18_X,
+          handler: `ocg-${projectName}-domain-event-publisher.handler`,
+          code: lambda.Code.fromAsset(generatedCodePath),
+          role: lambdaRole,
+          environment: {
+            ...commonEnvironment,
+            DOMAIN_EVENT_BUS_NAME: domainEventBus.eventBusName,
+            DOMAIN_EVENT_SOURCE: `oc-graphql.${projectName}`,
+          },
+          timeout: Duration.minutes(1),
+        }
+      );
+
+      domainEventPublisher.addEventSource(
+        new DynamoEventSource(table, {
+          startingPosition: lambda.StartingPosition.LATEST,
+          batchSize: 100,
+          retryAttempts: 3,
+          bisectBatchOnError: true,
+        })
+      );
+
+      domainEventBus.grantPutEventsTo(domainEventPublisher);
+    }
+
     // Cascade deletion queue listener Lambda (always created)
     // No hash needed - created once per project, won't hit 64 char limit
     const cascadeDeletionListener = new lambda.Function(
@@ -377,9 +521,45 @@ export class OcGraphQLStack extends Stack {
       dataBucket.grantDelete(deletionListener);
     }
 
+    // Webhook sender Lambda, signs deliveries with a generated secret
+    // No hash needed - created once per project, won't hit 64 char limit
+    if (webhookQueue) {
+      const webhookSecret = new secretsmanager.Secret(this, "WebhookSecret", {
+        secretName: `${projectName}-webhook-secret`,
+        description:
+          "HMAC secret for X-OC-GraphQL-Signature on task completion webhooks",
+        generateSecretString: {
+          excludePunctuation: true,
+          passwordLength: 48,
+        },
+      });
+
+      const webhookSender = new lambda.Function(this, "WebhookSender", {
+        functionName: `OCG-${projectName}-webhook-sender`,
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: `ocg-${projectName}-webhook-sender.handler`,
+        code: lambda.Code.fromAsset(generatedCodePath),
+        role: lambdaRole,
+        environment: {
+          ...commonEnvironment,
+          WEBHOOK_SECRET_ARN: webhookSecret.secretArn,
+        },
+        timeout: Duration.minutes(1),
+        memorySize: 256,
+      });
+
+      // Failed deliveries stay on the queue and are retried after the visibility timeout
+      webhookSender.addEventSource(
+        new SqsEventSource(webhookQueue, {
+          batchSize: 10,
+          reportBatchItemFailures: true,
+        })
+      );
+
+      webhookSecret.grantRead(webhookSender);
+    }
+
     // Create EventBridge Lambda and rule for tracking Athena query executions (if any tasks exist)
-    const hasTasks =
-      schemaMetadata.queries.some((q) => q.isTask) || hasDeleteMutations;
     if (hasTasks) {
       const athenaExecutionTrackerFunctionName = `${projectName}-athena-execution-tracker`;
       const athenaExecutionTracker =
@@ -416,10 +596,75 @@ export class OcGraphQLStack extends Stack {
         if (hasDeleteMutations && deletionQueue) {
           deletionQueue.grantSendMessages(athenaExecutionTracker);
         }
+
+        // The tracker queues webhooks for tasks started with a callbackUrl
+        if (webhookQueue) {
+          webhookQueue.grantSendMessages(athenaExecutionTracker);
+        }
+
+        // The tracker pushes completions to subscribers through notifyTaskCompleted,
+        // signing the request with its own role (AWS_IAM auth)
+        athenaExecutionTracker.addEnvironment(
+          "GRAPHQL_API_URL",
+          api.graphqlUrl
+        );
+        api.grantMutation(athenaExecutionTracker, "notifyTaskCompleted");
+        this.createTaskNotificationResolvers(api, schemaMetadata);
       }
     }
   }
 
+  /**
+   * Map a configured auth mode to its AppSync authorization mode
+   * Cognito user pools and Lambda authorizers are referenced, not created
+   */
+  private createAuthorizationMode(
+    mode: AuthMode,
+    authConfig: AuthConfig
+  ): appsync.AuthorizationMode {
+    switch (mode) {
+      case "API_KEY":
+        return {
+          authorizationType: appsync.AuthorizationType.API_KEY,
+          apiKeyConfig: {
+            expires: Expiration.after(Duration.days(365)),
+          },
+        };
+      case "AMAZON_COGNITO_USER_POOLS":
+        return {
+          authorizationType: appsync.AuthorizationType.USER_POOL,
+          userPoolConfig: {
+            userPool: cognito.UserPool.fromUserPoolId(
+              this,
+              "AuthUserPool",
+              authConfig.userPoolId!
+            ),
+          },
+        };
+      case "OPENID_CONNECT":
+        return {
+          authorizationType: appsync.AuthorizationType.OIDC,
+          openIdConnectConfig: {
+            oidcProvider: authConfig.oidcIssuer!,
+            clientId: authConfig.oidcClientId,
+          },
+        };
+      case "AWS_IAM":
+        return { authorizationType: appsync.AuthorizationType.IAM };
+      case "AWS_LAMBDA":
+        return {
+          authorizationType: appsync.AuthorizationType.LAMBDA,
+          lambdaAuthorizerConfig: {
+            handler: lambda.Function.fromFunctionArn(
+              this,
+              "LambdaAuthorizer",
+              authConfig.lambdaAuthorizerArn!
+            ),
+          },
+        };
+    }
+  }
+
   private createLambdaFunctions(
     schemaMetadata: SchemaMetadata,
     projectName: string,
@@ -438,7 +683,7 @@ export class OcGraphQLStack extends Stack {
       if (!type.isPrimitive) {
         const typeName = type.name.toLowerCase();
 
-        ["create", "read", "update", "delete"].forEach((operation) => {
+        ["create", "read", "list", "update", "delete"].forEach((operation) => {
           const functionName = `${projectName}-${operation}-${typeName}`;
           const hash = generateShortHash(functionName);
           functions[functionName] = new lambda.Function(
@@ -588,6 +833,29 @@ export class OcGraphQLStack extends Stack {
       }
     }
 
+    // Direct query functions for SYNC queries
+    for (const query of schemaMetadata.queries) {
+      if (query.isTask && query.sqlQuery?.mode === "SYNC") {
+        const capitalizedName =
+          query.name.charAt(0).toUpperCase() + query.name.slice(1);
+        const functionName = `${projectName}-query-${query.name}`;
+        const hash = generateShortHash(functionName);
+        functions[functionName] = new lambda.Function(
+          this,
+          `SyncQuery${capitalizedName}Function`,
+          {
+            functionName: `OCG-${projectName}-${hash}`,
+            runtime: lambda.Runtime.NODEJS_18_X,
+            handler: `ocg-${functionName}.handler`,
+            code: lambda.Code.fromAsset(generatedCodePath),
+            role,
+            environment: commonEnvironment,
+            timeout: Duration.seconds(30),
+          }
+        );
+      }
+    }
+
     // Athena execution tracker Lambda
     const hasDeleteMutations = schemaMetadata.mutations.some((m) => {
       const query = m.sqlQuery?.query.trim().toUpperCase() || "";
@@ -611,6 +879,22 @@ export class OcGraphQLStack extends Stack {
           timeout: Duration.minutes(5),
         }
       );
+
+      // Task listing and cancellation, shared by all tasks
+      for (const [functionName, id] of [
+        [`${projectName}-query-listTasks`, "ListTasksFunction"],
+        [`${projectName}-mutation-cancelTask`, "CancelTaskFunction"],
+      ]) {
+        functions[functionName] = new lambda.Function(this, id, {
+          functionName: `OCG-${projectName}-${generateShortHash(functionName)}`,
+          runtime: lambda.Runtime.NODEJS_18_X,
+          handler: `ocg-${functionName}.handler`,
+          code: lambda.Code.fromAsset(generatedCodePath),
+          role,
+          environment: commonEnvironment,
+          timeout: Duration.seconds(30),
+        });
+      }
     }
 
     return functions;
@@ -635,16 +919,18 @@ export class OcGraphQLStack extends Stack {
         const projectName = this.projectName;
 
         // Query resolvers
-        const readFunctionName = `${projectName}-read-${typeName}`;
-        if (dataSources[readFunctionName]) {
-          dataSources[readFunctionName].createResolver(
-            `read${type.name}Resolver`,
-            {
-              typeName: "Query",
-              fieldName: `read${type.name}`,
-            }
-          );
-        }
+        ["read", "list"].forEach((operation) => {
+          const functionName = `${projectName}-${operation}-${typeName}`;
+          if (dataSources[functionName]) {
+            dataSources[functionName].createResolver(
+              `${operation}${type.name}Resolver`,
+              {
+                typeName: "Query",
+                fieldName: `${operation}${type.name}`,
+              }
+            );
+          }
+        });
 
         // Mutation resolvers
         ["create", "update", "delete"].forEach((operation) => {
@@ -689,6 +975,19 @@ export class OcGraphQLStack extends Stack {
       }
     }
 
+    // SYNC query resolvers
+    for (const query of schemaMetadata.queries) {
+      if (query.isTask && query.sqlQuery?.mode === "SYNC") {
+        const functionName = `${this.projectName}-query-${query.name}`;
+        if (dataSources[functionName]) {
+          dataSources[functionName].createResolver(`${query.name}Resolver`, {
+            typeName: "Query",
+            fieldName: query.name,
+          });
+        }
+      }
+    }
+
     // Custom mutation resolvers (exclude DELETE mutations - they use triggerTask)
     for (const mutation of schemaMetadata.mutations) {
       if (mutation.sqlQuery) {
@@ -787,10 +1086,122 @@ export class OcGraphQLStack extends Stack {
       }
     }
 
+    // Task listing and cancellation resolvers
+    const listTasksFunctionName = `${this.projectName}-query-listTasks`;
+    if (dataSources[listTasksFunctionName]) {
+      dataSources[listTasksFunctionName].createResolver("listTasksResolver", {
+        typeName: "Query",
+        fieldName: "listTasks",
+      });
+    }
+    const cancelTaskFunctionName = `${this.projectName}-mutation-cancelTask`;
+    if (dataSources[cancelTaskFunctionName]) {
+      dataSources[cancelTaskFunctionName].createResolver("cancelTaskResolver", {
+        typeName: "Mutation",
+        fieldName: "cancelTask",
+      });
+    }
+
     // Removed: Field-level @sql_query resolvers and @resolver type resolvers
     // @resolver directive and @sql_query on type fields are no longer supported
   }
 
+  /**
+   * NONE data source shared by subscription and notification resolvers
+   */
+  private getSubscriptionDataSource(
+    api: appsync.GraphqlApi
+  ): appsync.NoneDataSource {
+    if (!this.subscriptionDataSource) {
+      this.subscriptionDataSource = api.addNoneDataSource(
+        "SubscriptionDataSource"
+      );
+    }
+    return this.subscriptionDataSource;
+  }
+
+  /**
+   * onCreate/onUpdate/onDelete resolvers for entity types with @auth rules
+   * Types without rules rely on plain argument filtering and need none
+   */
+  private createEntitySubscriptionResolvers(
+    api: appsync.GraphqlApi,
+    schemaMetadata: SchemaMetadata
+  ): void {
+    for (const type of schemaMetadata.types) {
+      if (type.isPrimitive || type.isTaskResponse || !type.authRules) {
+        continue;
+      }
+      // Owners can only be filtered on when the type exposes the owner field
+      const ownerRule = type.authRules.find((rule) => rule.allow === "owner");
+      const ownerField = ownerRule
+        ? ownerRule.ownerField || "owner"
+        : undefined;
+      const code = appsync.Code.fromInline(
+        createEntitySubscriptionResolver(
+          type.authRules,
+          type.fields.some((field) => field.name === ownerField)
+            ? ownerField
+            : undefined
+        )
+      );
+      for (const operation of ["Create", "Update", "Delete"]) {
+        const fieldName = `on${operation}${type.name}`;
+        this.getSubscriptionDataSource(api).createResolver(
+          `${fieldName}Resolver`,
+          {
+            typeName: "Subscription",
+            fieldName,
+            runtime: appsync.FunctionRuntime.JS_1_0_0,
+            code,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * notifyTaskCompleted and the task completion subscriptions, all served by a
+   * NONE data source: AppSync fans the mutation result out to subscribers
+   */
+  private createTaskNotificationResolvers(
+    api: appsync.GraphqlApi,
+    schemaMetadata: SchemaMetadata
+  ): void {
+    const noneDataSource = this.getSubscriptionDataSource(api);
+    const capitalizeFirst = (str: string) =>
+      str.charAt(0).toUpperCase() + str.slice(1);
+
+    noneDataSource.createResolver("notifyTaskCompletedResolver", {
+      typeName: "Mutation",
+      fieldName: "notifyTaskCompleted",
+      runtime: appsync.FunctionRuntime.JS_1_0_0,
+      code: appsync.Code.fromInline(NOTIFY_TASK_COMPLETED_RESOLVER),
+    });
+
+    noneDataSource.createResolver("onTaskCompletedResolver", {
+      typeName: "Subscription",
+      fieldName: "onTaskCompleted",
+      runtime: appsync.FunctionRuntime.JS_1_0_0,
+      code: appsync.Code.fromInline(createTaskCompletedSubscriptionResolver()),
+    });
+
+    for (const query of schemaMetadata.queries) {
+      if (!query.isTask || !query.sqlQuery) {
+        continue;
+      }
+      const fieldName = `onTask${capitalizeFirst(query.name)}Completed`;
+      noneDataSource.createResolver(`${fieldName}Resolver`, {
+        typeName: "Subscription",
+        fieldName,
+        runtime: appsync.FunctionRuntime.JS_1_0_0,
+        code: appsync.Code.fromInline(
+          createTaskCompletedSubscriptionResolver(query.name)
+        ),
+      });
+    }
+  }
+
   /**
    * Create Glue tables for all entity types and join tables
    * This eliminates the need for stream processor to check/create tables,
@@ -801,12 +1212,48 @@ export class OcGraphQLStack extends Stack {
     dataBucket: s3.Bucket,
     schemaMetadata: SchemaMetadata,
     projectName: string,
-    lambdaRole: iam.Role
+    lambdaRole: iam.Role,
+    tableFormat: TableFormat,
+    ddlOutputLocation: string
   ): void {
     const databaseName = `${projectName}_db`;
     const bucketName = dataBucket.bucketName;
     const baseLocation = `s3://${bucketName}/tables/`;
 
+    // Iceberg tables are created through Athena DDL under their own prefix
+    if (tableFormat === "iceberg") {
+      for (const type of schemaMetadata.types) {
+        if (type.isTaskResponse || type.isPrimitive) {
+          continue;
+        }
+        const tableName = type.name.toLowerCase();
+        this.createIcebergTableCustomResource(
+          `GlueTable${type.name}`,
+          databaseName,
+          tableName,
+          getEntityTableColumns(type),
+          getPartitionLayout(type),
+          `s3://${bucketName}/iceberg/${tableName}/`,
+          ddlOutputLocation,
+          lambdaRole
+        );
+      }
+      for (const joinTable of schemaMetadata.joinTables) {
+        const tableName = joinTable.toLowerCase();
+        this.createIcebergTableCustomResource(
+          `GlueTableJoin${joinTable}`,
+          databaseName,
+          tableName,
+          getJoinTableColumns(joinTable, schemaMetadata),
+          getPartitionLayout(),
+          `s3://${bucketName}/iceberg/${tableName}/`,
+          ddlOutputLocation,
+          lambdaRole
+        );
+      }
+      return;
+    }
+
     // Create tables for all entity types (excluding task_response types)
     for (const type of schemaMetadata.types) {
       // Skip task_response types and primitive types
@@ -817,51 +1264,20 @@ export class OcGraphQLStack extends Stack {
       const tableName = type.name.toLowerCase();
       const location = `${baseLocation}${tableName}/`;
 
-      // Extract columns from GraphQL type fields
-      const columns: glue.CfnTable.ColumnProperty[] = [];
-      for (const field of type.fields) {
-        // Skip internal fields
-        if (
-          field.name === "PK" ||
-          field.name === "SK" ||
-          field.name === "GSI1-PK" ||
-          field.name === "GSI1-SK" ||
-          field.name === "entityType" ||
-          field.name === "entityId" ||
-          field.name.startsWith("_partition_")
-        ) {
-          continue;
-        }
-
-        const glueType = mapGraphQLTypeToGlueType(field.type);
-        columns.push({
-          name: field.name,
-          type: glueType,
-        });
-      }
-
-      // Add standard timestamp fields if not already present
-      const hasCreatedAt = columns.some((c) => c.name === "createdAt");
-      const hasUpdatedAt = columns.some((c) => c.name === "updatedAt");
-
-      if (!hasCreatedAt) {
-        columns.push({ name: "createdAt", type: "timestamp" });
-      }
-      if (!hasUpdatedAt) {
-        columns.push({ name: "updatedAt", type: "timestamp" });
-      }
+      // Partition fields live in the S3 path, Hive tables can't also store them as columns
+      const layout = getPartitionLayout(type);
+      const columns = getEntityTableColumns(type).filter(
+        (column) => !layout.by.includes(column.name)
+      );
 
       // Create Glue table with partition projection
-      // Storage template uses ${year} syntax for partition projection (not TypeScript template literal)
-      const storageTemplate = `${location}year=\${year}/month=\${month}/day=\${day}/`;
-
       this.createGlueTableCustomResource(
         `GlueTable${type.name}`,
         databaseName,
         tableName,
         columns,
         location,
-        storageTemplate,
+        this.getPartitionProjection(layout, location, type, schemaMetadata),
         `Parquet table for ${type.name} entity with SNAPPY compression`,
         lambdaRole
       );
@@ -873,78 +1289,7 @@ export class OcGraphQLStack extends Stack {
       const location = `${baseLocation}${tableName}/`;
 
       // Extract columns from INSERT statements that use this join table
-      const columns: glue.CfnTable.ColumnProperty[] = [];
-
-      // Find mutations that use this join table
-      for (const mutation of schemaMetadata.mutations) {
-        if (mutation.sqlQuery?.query) {
-          const query = mutation.sqlQuery.query;
-
-          // Check if this mutation uses the current join table
-          const joinTableMatch = query.match(/\$join_table\(([^)]+)\)/);
-          if (
-            joinTableMatch &&
-            joinTableMatch[1].toLowerCase() === joinTable.toLowerCase()
-          ) {
-            // Extract column definitions from INSERT statement
-            // Pattern: INSERT INTO $join_table(table) (col1:Type1, col2:Type2) VALUES ...
-            const insertMatch = query.match(
-              /INSERT\s+INTO\s+\$join_table\([^)]+\)\s*\(([^)]+)\)/i
-            );
-            if (insertMatch) {
-              const columnDefs = insertMatch[1]
-                .split(",")
-                .map((col) => col.trim());
-
-              // Parse each column definition (e.g., "userId:User" -> columnName: "userId")
-              for (const colDef of columnDefs) {
-                const parts = colDef.split(":");
-                if (parts.length === 2) {
-                  const columnName = parts[0].trim();
-
-                  // Find the column type from mutation arguments
-                  const arg = mutation.arguments?.find(
-                    (a) => a.name === columnName
-                  );
-                  if (arg) {
-                    const glueType = mapGraphQLTypeToGlueType(arg.type);
-
-                    // Only add if not already added (avoid duplicates)
-                    if (!columns.some((c) => c.name === columnName)) {
-                      columns.push({
-                        name: columnName,
-                        type: glueType,
-                      });
-                    }
-                  } else {
-                    // If argument not found, default to string (ID types)
-                    if (!columns.some((c) => c.name === columnName)) {
-                      columns.push({
-                        name: columnName,
-                        type: "string",
-                      });
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-
-      // Add standard join table columns
-      if (!columns.some((c) => c.name === "relationId")) {
-        columns.unshift({ name: "relationId", type: "string" });
-      }
-      if (!columns.some((c) => c.name === "s3Key")) {
-        columns.push({ name: "s3Key", type: "string" });
-      }
-      if (!columns.some((c) => c.name === "createdAt")) {
-        columns.push({ name: "createdAt", type: "timestamp" });
-      }
-
-      // Storage template uses ${year} syntax for partition projection (not TypeScript template literal)
-      const storageTemplate = `${location}year=\${year}/month=\${month}/day=\${day}/`;
+      const columns = getJoinTableColumns(joinTable, schemaMetadata);
 
       this.createGlueTableCustomResource(
         `GlueTableJoin${joinTable}`,
@@ -952,13 +1297,70 @@ export class OcGraphQLStack extends Stack {
         tableName,
         columns,
         location,
-        storageTemplate,
+        this.getPartitionProjection(getPartitionLayout(), location),
         `Parquet table for join table ${joinTable} with SNAPPY compression`,
         lambdaRole
       );
     }
   }
 
+  /**
+   * Partition keys and partition projection parameters of a Hive table
+   * Years are projected as an open-ended date range, enum partition fields as
+   * their values; other partition fields are injected, so queries have to
+   * filter them with = or IN
+   */
+  private getPartitionProjection(
+    layout: PartitionLayout,
+    location: string,
+    type?: TypeMetadata,
+    schemaMetadata?: SchemaMetadata
+  ): { partitionKeys: string[]; parameters: Record<string, string> } {
+    // Glue lower-cases column names, so the projection keys are lower-cased too
+    const parameters: Record<string, string> = {
+      "projection.enabled": "true",
+    };
+
+    for (const fieldName of layout.by) {
+      const key = fieldName.toLowerCase();
+      const fieldType = type?.fields.find((f) => f.name === fieldName)?.type;
+      const enumType = schemaMetadata?.enums.find((e) => e.name === fieldType);
+      if (enumType) {
+        parameters[`projection.${key}.type`] = "enum";
+        parameters[`projection.${key}.values`] = enumType.values.join(",");
+      } else {
+        parameters[`projection.${key}.type`] = "injected";
+      }
+    }
+
+    // createdAt starts with the first deployments, other time fields may hold history
+    const firstYear = layout.time === "createdAt" ? 2024 : 2000;
+    const timeProjection: Record<string, Record<string, string>> = {
+      year: {
+        type: "date",
+        format: "yyyy",
+        range: `${firstYear},NOW+1YEARS`,
+        interval: "1",
+        "interval.unit": "YEARS",
+      },
+      month: { type: "integer", range: "1,12", digits: "2" },
+      day: { type: "integer", range: "1,31", digits: "2" },
+      hour: { type: "integer", range: "0,23", digits: "2" },
+    };
+    for (const key of layout.timeKeys) {
+      for (const [name, value] of Object.entries(timeProjection[key])) {
+        parameters[`projection.${key}.${name}`] = value;
+      }
+    }
+
+    // Storage template uses ${year} syntax for partition projection (not TypeScript template literal)
+    parameters["storage.location.template"] =
+      location +
+      layout.keys.map((key) => `${key}=\${${key.toLowerCase()}}/`).join("");
+
+    return { partitionKeys: layout.keys, parameters };
+  }
+
   /**
    * Create a Glue table using Custom Resource Lambda
    * This handles existing tables gracefully (creates if not exists, updates if exists)
@@ -969,7 +1371,10 @@ export class OcGraphQLStack extends Stack {
     tableName: string,
     columns: glue.CfnTable.ColumnProperty[],
     location: string,
-    storageTemplate: string,
+    partitioning: {
+      partitionKeys: string[];
+      parameters: Record<string, string>;
+    },
     description: string,
     lambdaRole: iam.Role
   ): void {
@@ -1000,7 +1405,10 @@ exports.handler = async (event) => {
     // Try to get existing table
     let tableExists = false;
     try {
-      await glue.send(new GetTableCommand({ DatabaseName, Name: TableName }));
+      const existing = await glue.send(new GetTableCommand({ DatabaseName, Name: TableName }));
+      if ((existing.Table.Parameters?.table_type || '').toUpperCase() === 'ICEBERG') {
+        throw new Error(\`Table \${TableName} is an Iceberg table; deploy with --table-format iceberg\`);
+      }
       tableExists = true;
     } catch (error) {
       if (error.name !== 'EntityNotFoundException') {
@@ -1077,11 +1485,10 @@ exports.handler = async (event) => {
     const tableInput = {
       Name: tableName,
       Description: description,
-      PartitionKeys: [
-        { Name: "year", Type: "string" },
-        { Name: "month", Type: "string" },
-        { Name: "day", Type: "string" },
-      ],
+      PartitionKeys: partitioning.partitionKeys.map((key) => ({
+        Name: key,
+        Type: "string",
+      })),
       StorageDescriptor: {
         Columns: sdkColumns,
         Location: location,
@@ -1102,16 +1509,7 @@ exports.handler = async (event) => {
       Parameters: {
         EXTERNAL: "TRUE",
         "parquet.compression": "SNAPPY",
-        "projection.enabled": "true",
-        "projection.year.type": "integer",
-        "projection.year.range": "2024,2030",
-        "projection.month.type": "integer",
-        "projection.month.range": "1,12",
-        "projection.month.digits": "2",
-        "projection.day.type": "integer",
-        "projection.day.range": "1,31",
-        "projection.day.digits": "2",
-        "storage.location.template": storageTemplate,
+        ...partitioning.parameters,
         has_encrypted_data: "false",
         typeOfData: "file",
       },
@@ -1130,4 +1528,148 @@ exports.handler = async (event) => {
       },
     });
   }
+
+  /**
+   * Create an Iceberg table through Athena DDL using Custom Resource Lambda
+   * Existing tables get the columns they are missing (ALTER TABLE ADD COLUMNS);
+   * their partitioning is only set when the table is created
+   */
+  private createIcebergTableCustomResource(
+    id: string,
+    databaseName: string,
+    tableName: string,
+    columns: GlueColumn[],
+    layout: PartitionLayout,
+    location: string,
+    ddlOutputLocation: string,
+    lambdaRole: iam.Role
+  ): void {
+    const icebergTableHandler = new lambda.Function(this, `${id}Handler`, {
+      functionName: `OCG-${this.projectName}-glue-table-handler-${generateShortHash(id)}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      code: lambda.Code.fromInline(`
+const { AthenaClient, StartQueryExecutionCommand, GetQueryExecutionCommand } = require('@aws-sdk/client-athena');
+const { GlueClient, GetTableCommand } = require('@aws-sdk/client-glue');
+
+const athena = new AthenaClient({ region: process.env.AWS_REGION });
+const glue = new GlueClient({ region: process.env.AWS_REGION });
+
+// Athena DDL quotes identifiers with backticks
+const quote = (name) => '\\\`' + name + '\\\`';
+const columnList = (columns) => columns.map((column) => quote(column.name) + ' ' + column.type).join(', ');
+
+async function runDdl(sql, outputLocation) {
+  console.log('Running DDL:', sql);
+  const { QueryExecutionId } = await athena.send(new StartQueryExecutionCommand({
+    QueryString: sql,
+    ResultConfiguration: { OutputLocation: outputLocation }
+  }));
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const { QueryExecution } = await athena.send(new GetQueryExecutionCommand({ QueryExecutionId }));
+    const { State, StateChangeReason } = QueryExecution.Status;
+    if (State === 'SUCCEEDED') {
+      return;
+    }
+    if (State === 'FAILED' || State === 'CANCELLED') {
+      throw new Error(\`DDL \${State}: \${StateChangeReason}\`);
+    }
+  }
+}
+
+exports.handler = async (event) => {
+  const { RequestType, ResourceProperties } = event;
+  console.log('Event:', JSON.stringify(event, null, 2));
+  const { DatabaseName, TableName, Location, OutputLocation } = ResourceProperties;
+  const columns = JSON.parse(ResourceProperties.Columns);
+  const partitioning = JSON.parse(ResourceProperties.Partitioning);
+  const qualifiedName = quote(DatabaseName) + '.' + quote(TableName);
+  
+  if (RequestType === 'Delete') {
+    // Don't delete tables on stack deletion (they may contain data)
+    return { PhysicalResourceId: TableName };
+  }
+  
+  let existing = null;
+  try {
+    existing = (await glue.send(new GetTableCommand({ DatabaseName, Name: TableName }))).Table;
+  } catch (error) {
+    if (error.name !== 'EntityNotFoundException') {
+      throw error;
+    }
+  }
+  
+  if (!existing) {
+    console.log(\`Creating Iceberg table: \${TableName}\`);
+    await runDdl(
+      \`CREATE TABLE \${qualifiedName} (\${columnList(columns)}) \` +
+      \`PARTITIONED BY (\${partitioning.map((field) => field.transform ? field.transform + '(' + quote(field.column) + ')' : quote(field.column)).join(', ')}) \` +
+      \`LOCATION '\${Location}' \` +
+      "TBLPROPERTIES ('table_type'='ICEBERG', 'format'='parquet', 'write_compression'='snappy')",
+      OutputLocation
+    );
+  } else {
+    if ((existing.Parameters?.table_type || '').toUpperCase() !== 'ICEBERG') {
+      throw new Error(\`Table \${TableName} already exists as a Hive table; migrate its data before switching to --table-format iceberg\`);
+    }
+    const existingColumns = new Set((existing.StorageDescriptor?.Columns || []).map((column) => column.Name.toLowerCase()));
+    const missingColumns = columns.filter((column) => !existingColumns.has(column.name.toLowerCase()));
+    if (missingColumns.length > 0) {
+      console.log(\`Adding \${missingColumns.length} columns to Iceberg table: \${TableName}\`);
+      await runDdl(\`ALTER TABLE \${qualifiedName} ADD COLUMNS (\${columnList(missingColumns)})\`, OutputLocation);
+    }
+  }
+  
+  return {
+    PhysicalResourceId: TableName,
+    Data: { TableName }
+  };
+};
+      `),
+      role: lambdaRole,
+      timeout: Duration.minutes(5),
+    });
+
+    // Athena creates the table in Glue with the handler's permissions
+    icebergTableHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          "glue:GetDatabase",
+          "glue:GetTable",
+          "glue:CreateTable",
+          "glue:UpdateTable",
+        ],
+        resources: [
+          `arn:aws:glue:${this.region}:${this.account}:catalog`,
+          `arn:aws:glue:${this.region}:${this.account}:database/${databaseName}`,
+          `arn:aws:glue:${this.region}:${this.account}:table/${databaseName}/${tableName}`,
+        ],
+      })
+    );
+
+    const provider = new Provider(this, `${id}Provider`, {
+      onEventHandler: icebergTableHandler,
+    });
+
+    new CustomResource(this, id, {
+      serviceToken: provider.serviceToken,
+      properties: {
+        DatabaseName: databaseName,
+        TableName: tableName,
+        Columns: JSON.stringify(columns),
+        // Partition fields as identity partitions, then the time field bucketed by granularity
+        Partitioning: JSON.stringify([
+          ...layout.by.map((column) => ({ column })),
+          {
+            column: layout.time,
+            transform: layout.granularity.toLowerCase(),
+          },
+        ]),
+        Location: location,
+        OutputLocation: ddlOutputLocation,
+      },
+    });
+  }
 }
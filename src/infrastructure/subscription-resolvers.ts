@@ -0,0 +1,121 @@
+import { AuthRule } from "../parsers/schema-parser";
+
+/**
+ * AppSync JS resolvers for subscriptions, all served by a NONE data source
+ *
+ * The execution tracker calls notifyTaskCompleted with IAM credentials; the
+ * mutation only echoes the completion to onTaskCompleted /
+ * onTask<Query>Completed subscribers. Entity subscriptions only need a
+ * resolver when the type has @auth rules. Subscription resolvers narrow
+ * delivery with enhanced filters, which also carry the argument filters.
+ */
+
+/**
+ * Echo the notifyTaskCompleted input back as the mutation result
+ */
+export const NOTIFY_TASK_COMPLETED_RESOLVER = `
+export function request(ctx) {
+  return { payload: ctx.args.input };
+}
+
+export function response(ctx) {
+  return ctx.result;
+}
+`;
+
+// Caller principal and groups, as getCallerIdentity in the generated functions
+const CALLER_IDENTITY = `
+function getCaller(ctx) {
+  const identity = ctx.identity || {};
+  const claims = identity.claims || identity.resolverContext || {};
+  const groups = identity.groups || claims['cognito:groups'] || claims.groups || [];
+  return {
+    sub: identity.sub || claims.sub || identity.userArn || null,
+    username: identity.username || claims['cognito:username'] || claims.username || null,
+    groups: Array.isArray(groups) ? groups : String(groups).split(',')
+  };
+}
+
+// Every subscription argument that was provided must match
+function getArgumentFilter(ctx) {
+  const filter = {};
+  for (const name of Object.keys(ctx.args || {})) {
+    if (ctx.args[name] !== null && ctx.args[name] !== undefined) {
+      filter[name] = { eq: ctx.args[name] };
+    }
+  }
+  return filter;
+}
+`;
+
+/**
+ * Subscription resolver that only delivers completions of tasks the
+ * subscriber owns, optionally for a single task query
+ * Owners match getTaskOwner in the generated functions; tasks started
+ * without an identity are published with an empty ownerId
+ */
+export function createTaskCompletedSubscriptionResolver(
+  queryName?: string
+): string {
+  return `
+import { util, extensions } from '@aws-appsync/utils';
+${CALLER_IDENTITY}
+export function request(ctx) {
+  return { payload: null };
+}
+
+export function response(ctx) {
+  const caller = getCaller(ctx);
+  const filter = getArgumentFilter(ctx);
+  filter.ownerId = { eq: caller.sub || caller.username || '' };${
+    queryName
+      ? `
+  filter.queryName = { eq: '${queryName}' };`
+      : ""
+  }
+  extensions.setSubscriptionFilter(util.transform.toSubscriptionFilter(filter));
+  return null;
+}
+`;
+}
+
+/**
+ * Subscription resolver for an entity type with @auth rules
+ * Groups and private rules see every change, owners only changes to their
+ * own items. Deletions carry no owner, so onDelete<Type> requires full access.
+ */
+export function createEntitySubscriptionResolver(
+  authRules: AuthRule[],
+  ownerField: string | undefined
+): string {
+  return `
+import { util, extensions } from '@aws-appsync/utils';
+${CALLER_IDENTITY}
+const AUTH_RULES = ${JSON.stringify(authRules)};
+const OWNER_FIELD = ${ownerField ? `'${ownerField}'` : "null"};
+
+export function request(ctx) {
+  return { payload: null };
+}
+
+export function response(ctx) {
+  const caller = getCaller(ctx);
+  const filter = getArgumentFilter(ctx);
+  const hasFullAccess = !!ctx.identity && AUTH_RULES.some((rule) =>
+    rule.allow === 'private' ||
+    (rule.allow === 'groups' && (rule.groups || []).some((group) => caller.groups.includes(group)))
+  );
+
+  if (!hasFullAccess) {
+    if (!OWNER_FIELD || !caller.sub || ctx.info.fieldName.startsWith('onDelete')) {
+      util.unauthorized();
+    }
+    filter[OWNER_FIELD] = { eq: caller.sub };
+  }
+  if (Object.keys(filter).length > 0) {
+    extensions.setSubscriptionFilter(util.transform.toSubscriptionFilter(filter));
+  }
+  return null;
+}
+`;
+}
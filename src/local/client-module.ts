@@ -0,0 +1,46 @@
+export type CommandHandler = (input: unknown) => unknown | Promise<unknown>;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Required string parameter of a command input, rejected like the SDK's
+ * validation would when it is missing
+ */
+export function getStringParam(input: unknown, name: string): string {
+  const value = isRecord(input) ? input[name] : undefined;
+  if (typeof value !== "string") {
+    throw new Error(`Missing required parameter: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Build a stand-in for an AWS SDK v3 client module
+ * Exposes `<clientName>` plus one `<Operation>Command` class per handler,
+ * so generated code can keep using `client.send(new XCommand(input))`
+ */
+export function createClientModule(
+  clientName: string,
+  handlers: Record<string, CommandHandler>
+): Record<string, unknown> {
+  const module: Record<string, unknown> = {
+    [clientName]: class {
+      constructor(_config?: unknown) {}
+
+      async send(command: { operation: string; input: unknown }) {
+        return handlers[command.operation](command.input);
+      }
+    },
+  };
+
+  for (const operation of Object.keys(handlers)) {
+    module[`${operation}Command`] = class {
+      readonly operation = operation;
+      constructor(public input: unknown) {}
+    };
+  }
+
+  return module;
+}
@@ -0,0 +1,493 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { SchemaMetadata } from "../parsers/schema-parser";
+import {
+  GlueColumn,
+  PartitionLayout,
+  getEntityTableColumns,
+  getJoinTableColumns,
+  getPartitionLayout,
+} from "../infrastructure/glue-schema";
+import { bindSqlParameters } from "../generators/sql-template";
+import { createClientModule } from "./client-module";
+
+export interface LocalTableDefinition {
+  name: string;
+  columns: GlueColumn[];
+  partition: PartitionLayout;
+}
+
+export interface LocalQueryExecution {
+  QueryExecutionId: string;
+  Query: string;
+  ExecutionParameters?: string[];
+  StatementType: string;
+  QueryExecutionContext: { Database?: string };
+  ResultConfiguration: { OutputLocation?: string };
+  Status: {
+    State: "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED" | "CANCELLED";
+    StateChangeReason?: string;
+    SubmissionDateTime: Date;
+    CompletionDateTime?: Date;
+    AthenaError?: {
+      ErrorCategory: number;
+      ErrorType: number;
+      Retryable: boolean;
+      ErrorMessage: string;
+    };
+  };
+  Statistics: {
+    EngineExecutionTimeInMillis?: number;
+    DataScannedInBytes?: number;
+    TotalExecutionTimeInMillis?: number;
+    QueryQueueTimeInMillis?: number;
+  };
+}
+
+interface StoredResult {
+  columns: Array<{ Name: string; Type: string }>;
+  rows: Array<Array<string | null>>;
+}
+
+type StateChangeListener = (
+  execution: LocalQueryExecution,
+  previousState: string
+) => void;
+
+/**
+ * Tables the generated SQL can reference: one per entity type and one per join table
+ */
+export function getLocalTableDefinitions(
+  schemaMetadata: SchemaMetadata
+): LocalTableDefinition[] {
+  const tables: LocalTableDefinition[] = [];
+
+  for (const type of schemaMetadata.types) {
+    if (type.isTaskResponse || type.isPrimitive) {
+      continue;
+    }
+    // Partition fields are read from the path, as in the Glue table
+    const partition = getPartitionLayout(type);
+    tables.push({
+      name: type.name.toLowerCase(),
+      columns: getEntityTableColumns(type).filter(
+        (column) => !partition.by.includes(column.name)
+      ),
+      partition,
+    });
+  }
+
+  for (const joinTable of schemaMetadata.joinTables) {
+    tables.push({
+      name: joinTable.toLowerCase(),
+      columns: getJoinTableColumns(joinTable, schemaMetadata),
+      partition: getPartitionLayout(),
+    });
+  }
+
+  return tables;
+}
+
+/**
+ * Map Glue column type to the DuckDB type used for local Parquet files
+ */
+function mapGlueTypeToDuckDBType(glueType: string): string {
+  switch (glueType) {
+    case "bigint":
+      return "BIGINT";
+    case "double":
+      return "DOUBLE";
+    case "boolean":
+      return "BOOLEAN";
+    case "timestamp":
+      return "TIMESTAMP";
+    default:
+      return "VARCHAR";
+  }
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.split('"').join('""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.split("'").join("''")}'`;
+}
+
+function toSqlLiteral(value: unknown, glueType: string): string {
+  if (value === null || value === undefined) {
+    return `CAST(NULL AS ${mapGlueTypeToDuckDBType(glueType)})`;
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `CAST(${quoteLiteral(text)} AS ${mapGlueTypeToDuckDBType(glueType)})`;
+}
+
+/**
+ * Format a result value the way Athena returns it, e.g. arrays as [a, b]
+ */
+function toAthenaString(value: unknown): string {
+  const items = (value as { items?: unknown } | null)?.items;
+  if (Array.isArray(items)) {
+    return `[${items.map((item) => (item === null ? "null" : toAthenaString(item))).join(", ")}]`;
+  }
+  return String(value);
+}
+
+async function listParquetFiles(directory: string): Promise<string[]> {
+  if (!(await fs.pathExists(directory))) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listParquetFiles(entryPath)));
+    } else if (entry.name.endsWith(".parquet")) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Local stand-in for Athena backed by an in-process DuckDB engine
+ * Tables are views over the Parquet files under <dataDir>/tables/<table>/,
+ * using the same Hive partition layout as the S3 data lake
+ */
+export class LocalAthenaEngine {
+  private executions = new Map<string, LocalQueryExecution>();
+  private results = new Map<string, StoredResult>();
+  private listeners: StateChangeListener[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private connection: DuckDBConnection,
+    private dataDir: string,
+    private tables: LocalTableDefinition[]
+  ) {}
+
+  static async create(
+    dataDir: string,
+    tables: LocalTableDefinition[]
+  ): Promise<LocalAthenaEngine> {
+    let duckdb: typeof import("@duckdb/node-api");
+    try {
+      duckdb = await import("@duckdb/node-api");
+    } catch (error) {
+      throw new Error(
+        "DuckDB is required for local SQL queries. Install it with: npm install @duckdb/node-api"
+      );
+    }
+    const instance = await duckdb.DuckDBInstance.create(":memory:");
+    const connection = await instance.connect();
+    // Athena runs in UTC and formats timestamps with date_format, which
+    // partition pruning predicates rely on
+    await connection.run("SET TimeZone = 'UTC'");
+    await connection.run(
+      "CREATE MACRO date_format(ts, fmt) AS strftime(ts, fmt)"
+    );
+    return new LocalAthenaEngine(connection, dataDir, tables);
+  }
+
+  setTables(tables: LocalTableDefinition[]): void {
+    this.tables = tables;
+  }
+
+  onStateChange(listener: StateChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  getPartitionLayout(tableName: string): PartitionLayout {
+    const table = this.tables.find((t) => t.name === tableName.toLowerCase());
+    return table ? table.partition : getPartitionLayout();
+  }
+
+  getTableLocation(tableName: string): string {
+    return path.join(this.dataDir, "tables", tableName.toLowerCase());
+  }
+
+  /**
+   * Write a single row as a Parquet file, projected onto the table's Glue columns
+   */
+  async writeParquet(
+    tableName: string,
+    row: Record<string, unknown>,
+    filePath: string
+  ): Promise<void> {
+    const table = this.tables.find((t) => t.name === tableName.toLowerCase());
+    if (!table) {
+      throw new Error(`Unknown local table: ${tableName}`);
+    }
+
+    const projection = table.columns
+      .map(
+        (column) =>
+          `${toSqlLiteral(row[column.name], column.type)} AS ${quoteIdentifier(column.name)}`
+      )
+      .join(", ");
+
+    await fs.ensureDir(path.dirname(filePath));
+    await this.run(
+      `COPY (SELECT ${projection}) TO ${quoteLiteral(filePath)} (FORMAT PARQUET, COMPRESSION SNAPPY)`
+    );
+  }
+
+  startQueryExecution(input: any): { QueryExecutionId: string } {
+    const executionId = uuidv4();
+    // Athena writes results to <OutputLocation><executionId>.csv
+    const outputFolder = input.ResultConfiguration?.OutputLocation;
+    const execution: LocalQueryExecution = {
+      QueryExecutionId: executionId,
+      Query: input.QueryString,
+      ExecutionParameters: input.ExecutionParameters,
+      StatementType: "DML",
+      QueryExecutionContext: input.QueryExecutionContext || {},
+      ResultConfiguration: outputFolder
+        ? {
+            OutputLocation: `${outputFolder.replace(/\/?$/, "/")}${executionId}.csv`,
+          }
+        : {},
+      Status: { State: "QUEUED", SubmissionDateTime: new Date() },
+      Statistics: {},
+    };
+    this.executions.set(executionId, execution);
+
+    // Athena runs asynchronously - callers poll or wait for the state change event
+    setImmediate(() => {
+      this.execute(execution).catch((error) =>
+        console.error(`Local query ${executionId} crashed:`, error)
+      );
+    });
+
+    return { QueryExecutionId: executionId };
+  }
+
+  getQueryExecution(input: any): { QueryExecution: LocalQueryExecution } {
+    return { QueryExecution: this.findExecution(input.QueryExecutionId) };
+  }
+
+  getQueryResults(input: any): any {
+    const execution = this.findExecution(input.QueryExecutionId);
+    if (execution.Status.State !== "SUCCEEDED") {
+      const error = new Error(
+        `Query has not yet finished. Current state: ${execution.Status.State}`
+      );
+      error.name = "InvalidRequestException";
+      throw error;
+    }
+
+    const result = this.results.get(execution.QueryExecutionId)!;
+    // The first page starts with a header row, like Athena
+    const allRows = [
+      result.columns.map((column) => column.Name),
+      ...result.rows,
+    ];
+    const offset = input.NextToken ? Number(input.NextToken) : 0;
+    if (!Number.isInteger(offset) || offset < 0 || offset > allRows.length) {
+      const error = new Error("The NextToken is invalid");
+      error.name = "InvalidRequestException";
+      throw error;
+    }
+    const maxResults = Math.min(input.MaxResults || 1000, 1000);
+    const page = allRows.slice(offset, offset + maxResults);
+    const nextOffset = offset + page.length;
+
+    return {
+      ResultSet: {
+        Rows: page.map((row) => ({
+          Data: row.map((value) =>
+            value === null ? {} : { VarCharValue: value }
+          ),
+        })),
+        ResultSetMetadata: {
+          ColumnInfo: result.columns.map((column) => ({
+            Name: column.Name,
+            Label: column.Name,
+            Type: column.Type,
+          })),
+        },
+      },
+      NextToken: nextOffset < allRows.length ? String(nextOffset) : undefined,
+      UpdateCount: 0,
+    };
+  }
+
+  stopQueryExecution(input: any): Record<string, never> {
+    const execution = this.findExecution(input.QueryExecutionId);
+    if (
+      execution.Status.State === "QUEUED" ||
+      execution.Status.State === "RUNNING"
+    ) {
+      this.transition(execution, "CANCELLED", {
+        StateChangeReason: "Query was cancelled by user",
+      });
+    }
+    return {};
+  }
+
+  private async execute(execution: LocalQueryExecution): Promise<void> {
+    if (execution.Status.State !== "QUEUED") {
+      return;
+    }
+    const startedAt = Date.now();
+    this.transition(execution, "RUNNING");
+
+    try {
+      await this.refreshViews();
+      // Athena binds execution parameters to "?" markers in order
+      const query = bindSqlParameters(
+        execution.Query,
+        execution.ExecutionParameters || []
+      );
+      const reader = await this.run(query);
+      if (!this.isRunning(execution)) {
+        return; // Cancelled while running
+      }
+
+      const columnNames = reader.columnNames();
+      const columnTypes = reader.columnTypes();
+      this.results.set(execution.QueryExecutionId, {
+        columns: columnNames.map((name, index) => ({
+          Name: name,
+          Type: String(columnTypes[index]).toLowerCase(),
+        })),
+        rows: reader
+          .getRows()
+          .map((row) =>
+            row.map((value) => (value === null ? null : toAthenaString(value)))
+          ),
+      });
+
+      const engineTime = Date.now() - startedAt;
+      execution.Statistics = {
+        EngineExecutionTimeInMillis: engineTime,
+        DataScannedInBytes: await this.estimateDataScanned(query),
+        TotalExecutionTimeInMillis:
+          Date.now() - execution.Status.SubmissionDateTime.getTime(),
+        QueryQueueTimeInMillis:
+          startedAt - execution.Status.SubmissionDateTime.getTime(),
+      };
+      this.transition(execution, "SUCCEEDED");
+    } catch (error) {
+      if (!this.isRunning(execution)) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      this.transition(execution, "FAILED", {
+        StateChangeReason: message,
+        AthenaError: {
+          ErrorCategory: 2, // USER
+          ErrorType: 1000,
+          Retryable: false,
+          ErrorMessage: message,
+        },
+      });
+    }
+  }
+
+  private isRunning(execution: LocalQueryExecution): boolean {
+    return execution.Status.State === "RUNNING";
+  }
+
+  private transition(
+    execution: LocalQueryExecution,
+    state: LocalQueryExecution["Status"]["State"],
+    details: Partial<LocalQueryExecution["Status"]> = {}
+  ): void {
+    const previousState = execution.Status.State;
+    execution.Status = { ...execution.Status, ...details, State: state };
+    if (state === "SUCCEEDED" || state === "FAILED" || state === "CANCELLED") {
+      execution.Status.CompletionDateTime = new Date();
+    }
+    for (const listener of this.listeners) {
+      listener(execution, previousState);
+    }
+  }
+
+  /**
+   * (Re)create one view per table so newly written Parquet files are visible
+   * Tables without any files yet get an empty view with the declared columns
+   */
+  private async refreshViews(): Promise<void> {
+    for (const table of this.tables) {
+      const location = this.getTableLocation(table.name);
+      const files = await listParquetFiles(location);
+      let definition: string;
+
+      if (files.length > 0) {
+        const hiveTypes = table.partition.keys
+          .map((column) => `'${column}': VARCHAR`)
+          .join(", ");
+        definition = `SELECT * FROM read_parquet(${quoteLiteral(
+          path.join(location, "**", "*.parquet")
+        )}, hive_partitioning = true, union_by_name = true, hive_types = {${hiveTypes}})`;
+      } else {
+        const columns = [
+          ...table.columns.map(
+            (column) =>
+              `CAST(NULL AS ${mapGlueTypeToDuckDBType(column.type)}) AS ${quoteIdentifier(column.name)}`
+          ),
+          ...table.partition.keys.map(
+            (column) => `CAST(NULL AS VARCHAR) AS ${quoteIdentifier(column)}`
+          ),
+        ];
+        definition = `SELECT ${columns.join(", ")} WHERE false`;
+      }
+
+      await this.run(
+        `CREATE OR REPLACE VIEW ${quoteIdentifier(table.name)} AS ${definition}`
+      );
+    }
+  }
+
+  private async estimateDataScanned(query: string): Promise<number> {
+    let bytes = 0;
+    for (const table of this.tables) {
+      if (!new RegExp(`\\b${table.name}\\b`, "i").test(query)) {
+        continue;
+      }
+      for (const file of await listParquetFiles(
+        this.getTableLocation(table.name)
+      )) {
+        bytes += (await fs.stat(file)).size;
+      }
+    }
+    return bytes;
+  }
+
+  /**
+   * DuckDB connections execute one statement at a time
+   */
+  private run(sql: string) {
+    const result = this.queue.then(() => this.connection.runAndReadAll(sql));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private findExecution(executionId: string): LocalQueryExecution {
+    const execution = this.executions.get(executionId);
+    if (!execution) {
+      const error = new Error(`QueryExecution ${executionId} was not found`);
+      error.name = "InvalidRequestException";
+      throw error;
+    }
+    return execution;
+  }
+}
+
+/**
+ * Build a stand-in for the @aws-sdk/client-athena module backed by the local engine
+ */
+export function createAthenaModule(
+  engine: LocalAthenaEngine
+): Record<string, unknown> {
+  return createClientModule("AthenaClient", {
+    StartQueryExecution: (input) => engine.startQueryExecution(input),
+    GetQueryExecution: (input) => engine.getQueryExecution(input),
+    GetQueryResults: (input) => engine.getQueryResults(input),
+    StopQueryExecution: (input) => engine.stopQueryExecution(input),
+  });
+}
@@ -0,0 +1,666 @@
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import * as fs from "fs-extra";
+import { CommandHandler, createClientModule } from "./client-module";
+
+type Item = Record<string, any>;
+type AttributeMap = Record<string, any>;
+
+export interface LocalIndex {
+  name: string;
+  partitionKey: string;
+  sortKey?: string;
+}
+
+export interface LocalStreamRecord {
+  eventName: "INSERT" | "MODIFY" | "REMOVE";
+  dynamodb: {
+    Keys: AttributeMap;
+    NewImage?: AttributeMap;
+    OldImage?: AttributeMap;
+  };
+}
+
+/**
+ * Global secondary indexes of the deployed table, mirrored locally
+ * Keep in sync with the indexes added in OcGraphQLStack
+ */
+export const LOCAL_TABLE_INDEXES: LocalIndex[] = [
+  { name: "GSI1", partitionKey: "GSI1-PK", sortKey: "GSI1-SK" },
+  { name: "GSI2", partitionKey: "entityType", sortKey: "createdAt" },
+];
+
+interface ExpressionContext {
+  names: Record<string, string>;
+  values: Item;
+}
+
+type Evaluator = (item: Item) => boolean;
+type ValueResolver = (item: Item) => any;
+
+function conditionalCheckFailed(): Error {
+  const error = new Error("The conditional request failed");
+  error.name = "ConditionalCheckFailedException";
+  return error;
+}
+
+function validationError(message: string): Error {
+  const error = new Error(message);
+  error.name = "ValidationException";
+  return error;
+}
+
+/**
+ * Minimal tokenizer shared by condition, key condition and update expressions
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  const pattern =
+    /\s*(<>|<=|>=|=|<|>|\(|\)|,|\+|-|[#:]?[A-Za-z_][\w]*(?:\.#?[A-Za-z_]\w*)*)/y;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) {
+      break;
+    }
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw validationError(
+        `Unsupported expression syntax near: ${expression.slice(index)}`
+      );
+    }
+    tokens.push(match[1]);
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+function resolvePath(path: string, context: ExpressionContext): string[] {
+  return path.split(".").map((part) => {
+    if (part.startsWith("#")) {
+      const name = context.names[part];
+      if (name === undefined) {
+        throw validationError(
+          `Expression attribute name ${part} is not defined`
+        );
+      }
+      return name;
+    }
+    return part;
+  });
+}
+
+function readPath(item: Item, path: string[]): any {
+  let current: any = item;
+  for (const part of path) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return current;
+}
+
+function compareValues(left: any, right: any): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right));
+}
+
+function valuesEqual(left: any, right: any): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+class ExpressionParser {
+  private position = 0;
+  private tokens: string[];
+
+  constructor(
+    expression: string,
+    private context: ExpressionContext
+  ) {
+    this.tokens = tokenize(expression);
+  }
+
+  parseCondition(): Evaluator {
+    const evaluator = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw validationError(
+        `Unexpected token in expression: ${this.tokens[this.position]}`
+      );
+    }
+    return evaluator;
+  }
+
+  parseUpdate(): Array<(item: Item) => void> {
+    const actions: Array<(item: Item) => void> = [];
+
+    while (this.position < this.tokens.length) {
+      const clause = this.next().toUpperCase();
+      if (clause === "SET") {
+        do {
+          const path = resolvePath(this.next(), this.context);
+          this.expect("=");
+          const value = this.parseUpdateValue();
+          actions.push((item) => this.writePath(item, path, value(item)));
+        } while (this.accept(","));
+      } else if (clause === "REMOVE") {
+        do {
+          const path = resolvePath(this.next(), this.context);
+          actions.push((item) => this.removePath(item, path));
+        } while (this.accept(","));
+      } else if (clause === "ADD") {
+        do {
+          const path = resolvePath(this.next(), this.context);
+          const value = this.parseOperand();
+          actions.push((item) => {
+            const current = readPath(item, path);
+            const addition = value(item);
+            this.writePath(
+              item,
+              path,
+              Array.isArray(addition)
+                ? [...(current || []), ...addition]
+                : (current || 0) + addition
+            );
+          });
+        } while (this.accept(","));
+      } else {
+        throw validationError(`Unsupported update clause: ${clause}`);
+      }
+    }
+
+    return actions;
+  }
+
+  private parseUpdateValue(): ValueResolver {
+    const first = this.parseUpdateOperand();
+    if (this.accept("+")) {
+      const second = this.parseUpdateOperand();
+      return (item) => first(item) + second(item);
+    }
+    if (this.accept("-")) {
+      const second = this.parseUpdateOperand();
+      return (item) => first(item) - second(item);
+    }
+    return first;
+  }
+
+  private parseUpdateOperand(): ValueResolver {
+    const token = this.peek();
+    if (token === "if_not_exists") {
+      this.next();
+      this.expect("(");
+      const path = resolvePath(this.next(), this.context);
+      this.expect(",");
+      const fallback = this.parseOperand();
+      this.expect(")");
+      return (item) => {
+        const current = readPath(item, path);
+        return current === undefined ? fallback(item) : current;
+      };
+    }
+    if (token === "list_append") {
+      this.next();
+      this.expect("(");
+      const first = this.parseOperand();
+      this.expect(",");
+      const second = this.parseOperand();
+      this.expect(")");
+      return (item) => [...(first(item) || []), ...(second(item) || [])];
+    }
+    return this.parseOperand();
+  }
+
+  private parseOr(): Evaluator {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("OR")) {
+      const right = this.parseAnd();
+      const previous = left;
+      left = (item) => previous(item) || right(item);
+    }
+    return left;
+  }
+
+  private parseAnd(): Evaluator {
+    let left = this.parseNot();
+    while (this.acceptKeyword("AND")) {
+      const right = this.parseNot();
+      const previous = left;
+      left = (item) => previous(item) && right(item);
+    }
+    return left;
+  }
+
+  private parseNot(): Evaluator {
+    if (this.acceptKeyword("NOT")) {
+      const inner = this.parseNot();
+      return (item) => !inner(item);
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Evaluator {
+    if (this.accept("(")) {
+      const inner = this.parseOr();
+      this.expect(")");
+      return inner;
+    }
+
+    const token = this.peek();
+    if (token === "attribute_exists" || token === "attribute_not_exists") {
+      this.next();
+      this.expect("(");
+      const path = resolvePath(this.next(), this.context);
+      this.expect(")");
+      return token === "attribute_exists"
+        ? (item) => readPath(item, path) !== undefined
+        : (item) => readPath(item, path) === undefined;
+    }
+    if (token === "begins_with" || token === "contains") {
+      this.next();
+      this.expect("(");
+      const subject = this.parseOperand();
+      this.expect(",");
+      const operand = this.parseOperand();
+      this.expect(")");
+      if (token === "begins_with") {
+        return (item) => {
+          const value = subject(item);
+          return (
+            typeof value === "string" && value.startsWith(String(operand(item)))
+          );
+        };
+      }
+      return (item) => {
+        const value = subject(item);
+        if (Array.isArray(value) || typeof value === "string") {
+          return value.includes(operand(item));
+        }
+        return false;
+      };
+    }
+
+    const left = this.parseOperand();
+
+    if (this.acceptKeyword("BETWEEN")) {
+      const lower = this.parseOperand();
+      if (!this.acceptKeyword("AND")) {
+        throw validationError("BETWEEN requires AND");
+      }
+      const upper = this.parseOperand();
+      return (item) =>
+        compareValues(left(item), lower(item)) >= 0 &&
+        compareValues(left(item), upper(item)) <= 0;
+    }
+
+    if (this.acceptKeyword("IN")) {
+      this.expect("(");
+      const options: ValueResolver[] = [];
+      do {
+        options.push(this.parseOperand());
+      } while (this.accept(","));
+      this.expect(")");
+      return (item) =>
+        options.some((option) => valuesEqual(left(item), option(item)));
+    }
+
+    const operator = this.next();
+    const right = this.parseOperand();
+    switch (operator) {
+      case "=":
+        return (item) => valuesEqual(left(item), right(item));
+      case "<>":
+        return (item) => !valuesEqual(left(item), right(item));
+      case "<":
+        return (item) => compareValues(left(item), right(item)) < 0;
+      case "<=":
+        return (item) => compareValues(left(item), right(item)) <= 0;
+      case ">":
+        return (item) => compareValues(left(item), right(item)) > 0;
+      case ">=":
+        return (item) => compareValues(left(item), right(item)) >= 0;
+      default:
+        throw validationError(`Unsupported comparison operator: ${operator}`);
+    }
+  }
+
+  private parseOperand(): ValueResolver {
+    const token = this.next();
+    if (token.startsWith(":")) {
+      if (!(token in this.context.values)) {
+        throw validationError(
+          `Expression attribute value ${token} is not defined`
+        );
+      }
+      const value = this.context.values[token];
+      return () => value;
+    }
+    const path = resolvePath(token, this.context);
+    return (item) => readPath(item, path);
+  }
+
+  private writePath(item: Item, path: string[], value: any): void {
+    let current = item;
+    for (const part of path.slice(0, -1)) {
+      if (current[part] === undefined || current[part] === null) {
+        current[part] = {};
+      }
+      current = current[part];
+    }
+    current[path[path.length - 1]] = value;
+  }
+
+  private removePath(item: Item, path: string[]): void {
+    const parent = readPath(item, path.slice(0, -1));
+    if (parent && typeof parent === "object") {
+      delete parent[path[path.length - 1]];
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.position++];
+    if (token === undefined) {
+      throw validationError("Unexpected end of expression");
+    }
+    return token;
+  }
+
+  private accept(token: string): boolean {
+    if (this.tokens[this.position] === token) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.tokens[this.position]?.toUpperCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (!this.accept(token)) {
+      throw validationError(
+        `Expected '${token}' but found '${this.tokens[this.position] ?? "end of expression"}'`
+      );
+    }
+  }
+}
+
+function buildContext(input: any): ExpressionContext {
+  return {
+    names: input.ExpressionAttributeNames || {},
+    values: input.ExpressionAttributeValues
+      ? unmarshall(input.ExpressionAttributeValues)
+      : {},
+  };
+}
+
+function checkCondition(input: any, existing: Item | undefined): void {
+  if (!input.ConditionExpression) {
+    return;
+  }
+  const evaluator = new ExpressionParser(
+    input.ConditionExpression,
+    buildContext(input)
+  ).parseCondition();
+  if (!evaluator(existing || {})) {
+    throw conditionalCheckFailed();
+  }
+}
+
+/**
+ * In-memory stand-in for the project's single DynamoDB table
+ * Supports the item, query and scan operations used by the generated Lambda functions
+ * and emits stream records (NEW_AND_OLD_IMAGES) for every change
+ */
+export class LocalDynamoDBTable {
+  private items = new Map<string, Item>();
+  private listeners: Array<(record: LocalStreamRecord) => void> = [];
+
+  constructor(private indexes: LocalIndex[] = LOCAL_TABLE_INDEXES) {}
+
+  onChange(listener: (record: LocalStreamRecord) => void): void {
+    this.listeners.push(listener);
+  }
+
+  async load(filePath: string): Promise<void> {
+    if (!(await fs.pathExists(filePath))) {
+      return;
+    }
+    const items: Item[] = await fs.readJson(filePath);
+    this.items.clear();
+    for (const item of items) {
+      this.items.set(this.keyOf(item), item);
+    }
+  }
+
+  async save(filePath: string): Promise<void> {
+    await fs.outputJson(filePath, Array.from(this.items.values()), {
+      spaces: 2,
+    });
+  }
+
+  async execute(operation: string, input: any): Promise<any> {
+    switch (operation) {
+      case "PutItem":
+        return this.putItem(input);
+      case "GetItem":
+        return this.getItem(input);
+      case "UpdateItem":
+        return this.updateItem(input);
+      case "DeleteItem":
+        return this.deleteItem(input);
+      case "Query":
+        return this.query(input);
+      case "Scan":
+        return this.scan(input);
+      default:
+        throw new Error(
+          `DynamoDB operation ${operation} is not supported by the local table`
+        );
+    }
+  }
+
+  private putItem(input: any): any {
+    const item = unmarshall(input.Item);
+    const key = this.keyOf(item);
+    const existing = this.items.get(key);
+    checkCondition(input, existing);
+
+    this.items.set(key, item);
+    this.emit(existing ? "MODIFY" : "INSERT", item, existing);
+
+    return input.ReturnValues === "ALL_OLD" && existing
+      ? { Attributes: marshall(existing) }
+      : {};
+  }
+
+  private getItem(input: any): any {
+    const item = this.items.get(this.keyOf(unmarshall(input.Key)));
+    return item ? { Item: marshall(item) } : {};
+  }
+
+  private updateItem(input: any): any {
+    const keyValues = unmarshall(input.Key);
+    const key = this.keyOf(keyValues);
+    const existing = this.items.get(key);
+    checkCondition(input, existing);
+
+    const updated: Item = structuredClone(existing || keyValues);
+    if (input.UpdateExpression) {
+      const actions = new ExpressionParser(
+        input.UpdateExpression,
+        buildContext(input)
+      ).parseUpdate();
+      for (const action of actions) {
+        action(updated);
+      }
+    }
+
+    this.items.set(key, updated);
+    this.emit(existing ? "MODIFY" : "INSERT", updated, existing);
+
+    switch (input.ReturnValues) {
+      case "ALL_NEW":
+      case "UPDATED_NEW":
+        return { Attributes: marshall(updated) };
+      case "ALL_OLD":
+      case "UPDATED_OLD":
+        return existing ? { Attributes: marshall(existing) } : {};
+      default:
+        return {};
+    }
+  }
+
+  private deleteItem(input: any): any {
+    const key = this.keyOf(unmarshall(input.Key));
+    const existing = this.items.get(key);
+    checkCondition(input, existing);
+
+    if (existing) {
+      this.items.delete(key);
+      this.emit("REMOVE", undefined, existing);
+    }
+
+    return input.ReturnValues === "ALL_OLD" && existing
+      ? { Attributes: marshall(existing) }
+      : {};
+  }
+
+  private query(input: any): any {
+    const index = input.IndexName
+      ? this.indexes.find((i) => i.name === input.IndexName)
+      : { name: "table", partitionKey: "PK", sortKey: "SK" };
+    if (!index) {
+      throw validationError(
+        `The table does not have the specified index: ${input.IndexName}`
+      );
+    }
+
+    const keyCondition = new ExpressionParser(
+      input.KeyConditionExpression,
+      buildContext(input)
+    ).parseCondition();
+
+    const candidates = Array.from(this.items.values())
+      .filter((item) => item[index.partitionKey] !== undefined)
+      .filter((item) => !index.sortKey || item[index.sortKey] !== undefined)
+      .filter(keyCondition)
+      .sort((a, b) =>
+        index.sortKey ? compareValues(a[index.sortKey], b[index.sortKey]) : 0
+      );
+
+    if (input.ScanIndexForward === false) {
+      candidates.reverse();
+    }
+
+    return this.paginate(candidates, input, index);
+  }
+
+  private scan(input: any): any {
+    const index = input.IndexName
+      ? this.indexes.find((i) => i.name === input.IndexName)
+      : undefined;
+    const candidates = Array.from(this.items.values()).filter(
+      (item) => !index || item[index.partitionKey] !== undefined
+    );
+    return this.paginate(candidates, input, index);
+  }
+
+  private paginate(candidates: Item[], input: any, index?: LocalIndex): any {
+    let start = 0;
+    if (input.ExclusiveStartKey) {
+      const startKey = unmarshall(input.ExclusiveStartKey);
+      const position = candidates.findIndex(
+        (item) => this.keyOf(item) === this.keyOf(startKey)
+      );
+      start = position === -1 ? candidates.length : position + 1;
+    }
+
+    const limit = input.Limit ?? candidates.length;
+    const evaluated = candidates.slice(start, start + limit);
+    const filter = input.FilterExpression
+      ? new ExpressionParser(
+          input.FilterExpression,
+          buildContext(input)
+        ).parseCondition()
+      : () => true;
+    const matched = evaluated.filter(filter);
+
+    const result: any = {
+      Count: matched.length,
+      ScannedCount: evaluated.length,
+    };
+    if (input.Select !== "COUNT") {
+      result.Items = matched.map((item) => marshall(item));
+    }
+    if (start + limit < candidates.length && evaluated.length > 0) {
+      const last = evaluated[evaluated.length - 1];
+      const lastKey: Item = { PK: last.PK, SK: last.SK };
+      if (index) {
+        lastKey[index.partitionKey] = last[index.partitionKey];
+        if (index.sortKey) {
+          lastKey[index.sortKey] = last[index.sortKey];
+        }
+      }
+      result.LastEvaluatedKey = marshall(lastKey);
+    }
+
+    return result;
+  }
+
+  private keyOf(item: Item): string {
+    return JSON.stringify([item.PK, item.SK]);
+  }
+
+  private emit(
+    eventName: LocalStreamRecord["eventName"],
+    newImage: Item | undefined,
+    oldImage: Item | undefined
+  ): void {
+    const source = (newImage || oldImage)!;
+    const record: LocalStreamRecord = {
+      eventName,
+      dynamodb: {
+        Keys: marshall({ PK: source.PK, SK: source.SK }),
+        NewImage: newImage ? marshall(newImage) : undefined,
+        OldImage: oldImage ? marshall(oldImage) : undefined,
+      },
+    };
+    for (const listener of this.listeners) {
+      listener(record);
+    }
+  }
+}
+
+/**
+ * Build a stand-in for the @aws-sdk/client-dynamodb module backed by a local table
+ */
+export function createDynamoDBModule(
+  table: LocalDynamoDBTable
+): Record<string, unknown> {
+  const handlers: Record<string, CommandHandler> = {};
+  for (const operation of [
+    "PutItem",
+    "GetItem",
+    "UpdateItem",
+    "DeleteItem",
+    "Query",
+    "Scan",
+  ]) {
+    handlers[operation] = (input) => table.execute(operation, input);
+  }
+
+  return createClientModule("DynamoDBClient", handlers);
+}
@@ -0,0 +1,397 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { CodeGenerator } from "../generators/code-generator";
+import { createEntitySubscriptionResolver } from "../infrastructure/subscription-resolvers";
+import { SchemaParser } from "../parsers/schema-parser";
+import { LocalRuntime } from "./local-runtime";
+
+const SCHEMA = `
+type Product {
+  id: ID!
+  name: String!
+  price: Float!
+}
+
+type Note @auth(rules: [{allow: owner}, {allow: groups, groups: ["admin"]}]) {
+  id: ID!
+  text: String!
+}
+
+type ProductCount @task_response {
+  total: Int!
+}
+
+type ProductName @task_response {
+  name: String!
+}
+
+type Query {
+  productCount(minPrice: Float!): ProductCount
+    @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE price >= $args.minPrice")
+  cheapProductCount(maxPrice: Float!): ProductCount
+    @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE price <= $args.maxPrice")
+  productNames(copies: Int!): [ProductName]
+    @sql_query(query: "SELECT p.name FROM product p CROSS JOIN range($args.copies) r")
+  namedProductCount(names: [String!]!): ProductCount
+    @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE name IN $args.names")
+  listedProductCount(names: [String!]!): ProductCount
+    @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE name IN ($args.names)")
+}
+`;
+
+// The stream processor and Athena run asynchronously, as they do on AWS
+async function waitFor<T>(
+  check: () => Promise<T | undefined>,
+  timeoutMs = 15000
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms`);
+}
+
+// Subscription filter an APPSYNC_JS resolver sets, with stand-ins for @aws-appsync/utils
+function getSubscriptionFilter(
+  code: string,
+  ctx: unknown
+): Record<string, { eq: unknown }> {
+  let filter = {};
+  const util = {
+    unauthorized: () => {
+      throw new Error("Unauthorized");
+    },
+    transform: { toSubscriptionFilter: (value: object) => value },
+  };
+  const extensions = {
+    setSubscriptionFilter: (value: object) => (filter = value),
+  };
+  const resolver = new Function(
+    "util",
+    "extensions",
+    `${code.replace(/^import .*$/m, "").replace(/^export /gm, "")}\nreturn { response };`
+  )(util, extensions);
+  resolver.response(ctx);
+  return filter;
+}
+
+describe("LocalRuntime", () => {
+  let dataDir: string;
+  let runtime: LocalRuntime;
+
+  // AppSync Lambda resolver event, as the dev server sends it; results are
+  // checked by the assertions
+  const invoke = (
+    fileName: string,
+    args: Record<string, unknown>,
+    identity: unknown = null
+  ): Promise<any> =>
+    runtime.invoke(`ocg-shop-${fileName}.js`, {
+      arguments: args,
+      identity,
+      source: null,
+      request: { headers: {} },
+      info: { fieldName: fileName, parentTypeName: "Query", variables: {} },
+      prev: null,
+      stash: {},
+    });
+
+  // Trigger a task query and wait until it has finished
+  const runTask = async (queryName: string, args: Record<string, unknown>) => {
+    const capitalized = queryName.charAt(0).toUpperCase() + queryName.slice(1);
+    const { taskId } = await invoke(`mutation-triggerTask${capitalized}`, args);
+    return waitFor(async () => {
+      const taskResult = await invoke(`query-taskResult${capitalized}`, {
+        taskId,
+      });
+      return taskResult.taskStatus === "RUNNING" ? undefined : taskResult;
+    });
+  };
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "ocg-runtime-"));
+    const schemaMetadata = new SchemaParser(SCHEMA).parse();
+    const generatedCode = await new CodeGenerator(
+      schemaMetadata,
+      "shop"
+    ).generateAll();
+
+    runtime = await LocalRuntime.create({
+      projectName: "shop",
+      dataDir,
+      schemaMetadata,
+      redeliveryDelayMs: 50,
+    });
+    runtime.loadFunctions(generatedCode.lambdaFunctions, schemaMetadata);
+  });
+
+  afterAll(async () => {
+    await runtime.close();
+    await fs.remove(dataDir);
+  });
+
+  it("creates, reads, updates, lists and deletes items", async () => {
+    const created = await invoke("create-product", {
+      input: { name: "Lamp", price: 20 },
+    });
+    expect(created).toMatchObject({ name: "Lamp", price: 20 });
+    expect(created.id).toEqual(expect.any(String));
+
+    expect(await invoke("read-product", { id: created.id })).toMatchObject({
+      id: created.id,
+      name: "Lamp",
+    });
+
+    await invoke("update-product", { id: created.id, input: { price: 25 } });
+    expect(await invoke("read-product", { id: created.id })).toMatchObject({
+      name: "Lamp",
+      price: 25,
+    });
+
+    const page = await invoke("list-product", { limit: 10 });
+    expect(page.items.map((item: any) => item.id)).toContain(created.id);
+
+    await invoke("delete-product", { id: created.id });
+    await expect(invoke("read-product", { id: created.id })).rejects.toThrow(
+      "Product not found"
+    );
+  });
+
+  it("delivers updates that don't touch the owner field to owner subscribers", async () => {
+    const carol = { sub: "carol", username: "carol" };
+    const note = await invoke(
+      "create-note",
+      { input: { text: "draft" } },
+      carol
+    );
+    const updated = await invoke(
+      "update-note",
+      { id: note.id, input: { text: "final" } },
+      carol
+    );
+    expect(updated).toMatchObject({ id: note.id, text: "final" });
+
+    const noteType = new SchemaParser(SCHEMA)
+      .parse()
+      .types.find((type) => type.name === "Note")!;
+    const filter = getSubscriptionFilter(
+      createEntitySubscriptionResolver(noteType.authRules!, "owner"),
+      { identity: carol, args: {}, info: { fieldName: "onUpdateNote" } }
+    );
+    expect(filter).toEqual({ owner: { eq: "carol" } });
+    for (const [field, { eq }] of Object.entries(filter)) {
+      expect(updated[field]).toBe(eq);
+    }
+  });
+
+  it("fills owner-scoped list pages past other owners' items", async () => {
+    const alice = { sub: "alice", username: "alice" };
+    const bob = { sub: "bob", username: "bob" };
+    for (let i = 0; i < 3; i++) {
+      await invoke("create-note", { input: { text: `alice ${i}` } }, alice);
+    }
+    // Newer items of another owner come first in the index
+    for (let i = 0; i < 5; i++) {
+      await invoke("create-note", { input: { text: `bob ${i}` } }, bob);
+    }
+
+    const first = await invoke("list-note", { limit: 2 }, alice);
+    expect(first.items).toHaveLength(2);
+    expect(first.nextToken).toEqual(expect.any(String));
+
+    const second = await invoke(
+      "list-note",
+      { limit: 2, nextToken: first.nextToken },
+      alice
+    );
+    expect(second.items).toHaveLength(1);
+    expect(second.nextToken).toBeNull();
+
+    const texts = [...first.items, ...second.items].map((note) => note.text);
+    expect(texts.sort()).toEqual(["alice 0", "alice 1", "alice 2"]);
+  });
+
+  it("runs a task query against the stream processor's Parquet files", async () => {
+    const ids: string[] = [];
+    for (const [name, price] of [
+      ["Chair", 40],
+      ["Desk", 120],
+      ["Pen", 2],
+    ] as const) {
+      ids.push((await invoke("create-product", { input: { name, price } })).id);
+    }
+    // One Parquet file per item once the stream has been processed
+    await waitFor(async () => {
+      const tableDir = path.join(dataDir, "tables", "product");
+      if (!(await fs.pathExists(tableDir))) {
+        return undefined;
+      }
+      const files = (await fs.readdir(tableDir, { recursive: true })).map(
+        (file) => path.basename(String(file))
+      );
+      return ids.every((id) => files.includes(`${id}.parquet`))
+        ? files
+        : undefined;
+    });
+
+    const { taskId } = await invoke("mutation-triggerTaskProductCount", {
+      minPrice: 30,
+    });
+    expect(taskId).toEqual(expect.any(String));
+
+    const result = await waitFor(async () => {
+      const taskResult = await invoke("query-taskResultProductCount", {
+        taskId,
+      });
+      return taskResult.taskStatus === "RUNNING" ? undefined : taskResult;
+    });
+    expect(result).toMatchObject({
+      taskId,
+      taskStatus: "SUCCEEDED",
+      result: { total: 2 },
+    });
+  });
+
+  it("fills a first result page of the maximum size", async () => {
+    // 3 products from the previous test, 1200 rows
+    const { taskId, taskStatus } = await runTask("productNames", {
+      copies: 400,
+    });
+    expect(taskStatus).toBe("SUCCEEDED");
+
+    const first = await invoke("query-taskResultProductNames", {
+      taskId,
+      limit: 1000,
+    });
+    expect(first.result).toHaveLength(1000);
+    const second = await invoke("query-taskResultProductNames", {
+      taskId,
+      limit: 1000,
+      nextToken: first.nextToken,
+    });
+    expect(second.result).toHaveLength(200);
+    expect(second.nextToken).toBeNull();
+  });
+
+  it("expands list arguments in IN clauses", async () => {
+    for (const queryName of ["namedProductCount", "listedProductCount"]) {
+      expect(
+        await runTask(queryName, { names: ["Chair", "Pen", "Sofa"] })
+      ).toMatchObject({ taskStatus: "SUCCEEDED", result: { total: 2 } });
+      // An empty list matches nothing instead of producing invalid SQL
+      expect(await runTask(queryName, { names: [] })).toMatchObject({
+        taskStatus: "SUCCEEDED",
+        result: { total: 0 },
+      });
+    }
+  });
+
+  it("fills task list pages filtered by query name", async () => {
+    for (const minPrice of [1, 2]) {
+      await invoke("mutation-triggerTaskProductCount", { minPrice });
+    }
+    // Newer tasks of another query come first in the index
+    for (const maxPrice of [1, 2, 3]) {
+      await invoke("mutation-triggerTaskCheapProductCount", { maxPrice });
+    }
+
+    const page = await invoke("query-listTasks", {
+      queryName: "productCount",
+      limit: 2,
+    });
+    expect(page.items).toHaveLength(2);
+    for (const task of page.items) {
+      expect(task.queryName).toBe("productCount");
+    }
+  });
+
+  it("lists only the caller's own tasks", async () => {
+    const alice = { sub: "alice", username: "alice" };
+    const bob = { sub: "bob", username: "bob" };
+    const aliceTaskIds: string[] = [];
+    for (const minPrice of [1, 2]) {
+      const { taskId } = await invoke(
+        "mutation-triggerTaskProductCount",
+        { minPrice },
+        alice
+      );
+      aliceTaskIds.push(taskId);
+    }
+    // Newer tasks of another caller come first in the entity type index
+    for (const minPrice of [1, 2, 3]) {
+      await invoke("mutation-triggerTaskProductCount", { minPrice }, bob);
+    }
+
+    const page = await invoke("query-listTasks", { limit: 5 }, alice);
+    expect(page.items.map((task: any) => task.taskId).sort()).toEqual(
+      aliceTaskIds.sort()
+    );
+  });
+
+  it("signs webhooks and stops redelivering after the receive limit", async () => {
+    const requests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    let status = 200;
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        requests.push({ headers: request.headers, body });
+        response.statusCode = status;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    const callbackUrl = `http://127.0.0.1:${port}/hook`;
+
+    try {
+      const task = await runTask("productCount", { minPrice: 30, callbackUrl });
+      const [delivery] = await waitFor(async () =>
+        requests.length > 0 ? requests : undefined
+      );
+      const timestamp = delivery.headers["x-oc-graphql-timestamp"];
+      const signature = crypto
+        .createHmac(
+          "sha256",
+          process.env.WEBHOOK_SECRET || "local-webhook-secret"
+        )
+        .update(`${timestamp}.${delivery.body}`)
+        .digest("hex");
+      expect(delivery.headers["x-oc-graphql-signature"]).toBe(
+        `sha256=${signature}`
+      );
+      expect(JSON.parse(delivery.body)).toMatchObject({
+        taskId: task.taskId,
+        queryName: "productCount",
+        taskType: "queryTask",
+        taskStatus: "SUCCEEDED",
+      });
+
+      // A failing receiver gets the same message until it goes to the dead-letter queue
+      requests.length = 0;
+      status = 500;
+      await runTask("productCount", { minPrice: 31, callbackUrl });
+      await waitFor(async () => (requests.length >= 5 ? requests : undefined));
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(requests).toHaveLength(5);
+      expect(
+        new Set(
+          requests.map((request) => request.headers["x-oc-graphql-delivery"])
+        ).size
+      ).toBe(1);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,401 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as vm from "vm";
+import { v4 as uuidv4 } from "uuid";
+import { SchemaMetadata } from "../parsers/schema-parser";
+import {
+  LocalAthenaEngine,
+  createAthenaModule,
+  getLocalTableDefinitions,
+} from "./local-athena";
+import { LocalDynamoDBTable, createDynamoDBModule } from "./local-dynamodb";
+import { LocalStreamProcessor } from "./local-stream-processor";
+import {
+  CommandHandler,
+  createClientModule,
+  getStringParam,
+  isRecord,
+} from "./client-module";
+
+interface LambdaContext {
+  functionName: string;
+  awsRequestId: string;
+}
+
+type LambdaHandler = (
+  event: unknown,
+  context: LambdaContext
+) => Promise<unknown>;
+
+export interface LocalRuntimeOptions {
+  projectName: string;
+  dataDir: string;
+  schemaMetadata: SchemaMetadata;
+  /**
+   * Delay before a message a queue listener failed is delivered again
+   */
+  redeliveryDelayMs?: number;
+}
+
+const TERMINAL_QUERY_STATES = ["SUCCEEDED", "FAILED", "CANCELLED"];
+
+// Mirrors maxReceiveCount of the deployed queues' dead-letter policy
+const MAX_RECEIVE_COUNT = 5;
+const REDELIVERY_DELAY_MS = 2000;
+
+/**
+ * Runs the generated Node.js Lambda functions in-process against local stand-ins:
+ * an in-memory DynamoDB table, a DuckDB-backed Athena, a file-system S3 bucket,
+ * SQS queues that invoke their listener directly and Athena state change events
+ * delivered straight to the execution tracker
+ */
+export class LocalRuntime {
+  private handlers = new Map<string, LambdaHandler>();
+  private modules: Record<string, unknown>;
+  private queues: Record<string, string> = {};
+  private saveTimer?: NodeJS.Timeout;
+  private streamQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private options: LocalRuntimeOptions,
+    readonly table: LocalDynamoDBTable,
+    readonly engine: LocalAthenaEngine
+  ) {
+    this.modules = {
+      "@aws-sdk/client-dynamodb": createDynamoDBModule(table),
+      "@aws-sdk/client-athena": createAthenaModule(engine),
+      "@aws-sdk/client-s3": this.createS3Module(),
+      "@aws-sdk/client-sqs": this.createSQSModule(),
+    };
+  }
+
+  static async create(options: LocalRuntimeOptions): Promise<LocalRuntime> {
+    const table = new LocalDynamoDBTable();
+    await table.load(path.join(options.dataDir, "dynamodb.json"));
+
+    const engine = await LocalAthenaEngine.create(
+      options.dataDir,
+      getLocalTableDefinitions(options.schemaMetadata)
+    );
+
+    const runtime = new LocalRuntime(options, table, engine);
+    runtime.wireEvents();
+    return runtime;
+  }
+
+  /**
+   * (Re)load generated Lambda functions, e.g. after the schema changed
+   */
+  loadFunctions(
+    lambdaFunctions: Record<string, string>,
+    schemaMetadata: SchemaMetadata
+  ): void {
+    const { projectName, dataDir } = this.options;
+    this.options.schemaMetadata = schemaMetadata;
+    this.engine.setTables(getLocalTableDefinitions(schemaMetadata));
+
+    const cascadeDeletionQueueUrl = `local://sqs/${projectName}-cascade-deletion`;
+    const deletionQueueUrl = `local://sqs/${projectName}-deletion`;
+    const webhookQueueUrl = `local://sqs/${projectName}-webhook`;
+    this.queues = {
+      [cascadeDeletionQueueUrl]: `ocg-${projectName}-cascade-deletion-listener.js`,
+      [deletionQueueUrl]: `ocg-${projectName}-deletion-listener.js`,
+      [webhookQueueUrl]: `ocg-${projectName}-webhook-sender.js`,
+    };
+
+    // Same environment variables as the deployed functions
+    Object.assign(process.env, {
+      AWS_REGION: process.env.AWS_REGION || "local",
+      DYNAMODB_TABLE_NAME: `OCG-${projectName}`,
+      S3_BUCKET_NAME: `ocg-${projectName.toLowerCase()}-local`,
+      ATHENA_DATABASE_NAME: `${projectName}_db`,
+      ATHENA_OUTPUT_LOCATION: `s3://ocg-${projectName.toLowerCase()}-athena-results-local/query-results/`,
+      CASCADE_DELETION_QUEUE_URL: cascadeDeletionQueueUrl,
+      DELETION_QUEUE_URL: deletionQueueUrl,
+      WEBHOOK_QUEUE_URL: webhookQueueUrl,
+      // Webhooks are signed with a fixed secret and may target http://localhost
+      WEBHOOK_SECRET: process.env.WEBHOOK_SECRET || "local-webhook-secret",
+      ALLOW_HTTP_CALLBACKS: "true",
+    });
+
+    this.handlers.clear();
+    for (const [fileName, code] of Object.entries(lambdaFunctions)) {
+      // The Python stream processor is replaced by LocalStreamProcessor
+      if (fileName.endsWith(".js")) {
+        this.handlers.set(
+          fileName,
+          this.loadHandler(path.join(dataDir, "functions", fileName), code)
+        );
+      }
+    }
+  }
+
+  hasFunction(fileName: string): boolean {
+    return this.handlers.has(fileName);
+  }
+
+  async invoke(fileName: string, event: unknown): Promise<unknown> {
+    const handler = this.handlers.get(fileName);
+    if (!handler) {
+      throw new Error(`Local function not found: ${fileName}`);
+    }
+    return handler(event, {
+      functionName: fileName.replace(/\.js$/, ""),
+      awsRequestId: uuidv4(),
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    await this.table.save(path.join(this.options.dataDir, "dynamodb.json"));
+  }
+
+  private wireEvents(): void {
+    const { dataDir } = this.options;
+
+    // DynamoDB stream -> stream processor (asynchronous, like the real stream)
+    const streamProcessor = new LocalStreamProcessor(
+      this.table,
+      this.engine,
+      dataDir,
+      (entityType, entityId) =>
+        this.sendMessage(
+          process.env.CASCADE_DELETION_QUEUE_URL!,
+          JSON.stringify({
+            entityType,
+            entityId,
+            timestamp: new Date().toISOString(),
+          })
+        )
+    );
+    this.table.onChange((record) => {
+      // Records are processed one at a time, in order, like a stream shard
+      this.streamQueue = this.streamQueue
+        .then(() => new Promise((resolve) => setImmediate(resolve)))
+        .then(() => streamProcessor.process(record))
+        .catch((error) =>
+          console.error("Error processing stream record:", error)
+        );
+      this.scheduleSave();
+    });
+
+    // Athena state change -> EventBridge rule -> execution tracker
+    this.engine.onStateChange((execution, previousState) => {
+      const trackerFile = `ocg-${this.options.projectName}-athena-execution-tracker.js`;
+      if (
+        !TERMINAL_QUERY_STATES.includes(execution.Status.State) ||
+        !this.hasFunction(trackerFile)
+      ) {
+        return;
+      }
+      this.invokeInBackground(trackerFile, {
+        source: "aws.athena",
+        "detail-type": "Athena Query State Change",
+        detail: {
+          queryExecutionId: execution.QueryExecutionId,
+          currentState: execution.Status.State,
+          previousState,
+          athenaError: execution.Status.AthenaError && {
+            errorCategory: execution.Status.AthenaError.ErrorCategory,
+            errorType: execution.Status.AthenaError.ErrorType,
+            retryable: execution.Status.AthenaError.Retryable,
+            errorMessage: execution.Status.AthenaError.ErrorMessage,
+          },
+        },
+      });
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.table
+        .save(path.join(this.options.dataDir, "dynamodb.json"))
+        .catch((error) => console.error("Error saving local table:", error));
+    }, 200);
+  }
+
+  private sendMessage(queueUrl: string, body: string): string {
+    const messageId = uuidv4();
+    const listener = this.queues[queueUrl];
+    if (!listener || !this.hasFunction(listener)) {
+      console.warn(`No local listener for queue ${queueUrl}, dropping message`);
+      return messageId;
+    }
+    this.deliverMessage(listener, messageId, body, 1);
+    return messageId;
+  }
+
+  /**
+   * Invoke a queue listener with a single record, redelivering it when the
+   * listener reports it in batchItemFailures
+   */
+  private deliverMessage(
+    listener: string,
+    messageId: string,
+    body: string,
+    receiveCount: number
+  ): void {
+    setImmediate(async () => {
+      try {
+        const result = await this.invoke(listener, {
+          Records: [
+            {
+              messageId,
+              body,
+              eventSource: "aws:sqs",
+              attributes: {
+                ApproximateReceiveCount: String(receiveCount),
+              },
+            },
+          ],
+        });
+        const failures: unknown[] =
+          isRecord(result) && Array.isArray(result.batchItemFailures)
+            ? result.batchItemFailures
+            : [];
+        const failed = failures.some(
+          (failure) => isRecord(failure) && failure.itemIdentifier === messageId
+        );
+        if (!failed) {
+          return;
+        }
+        if (receiveCount >= MAX_RECEIVE_COUNT) {
+          console.error(
+            `Message ${messageId} failed ${receiveCount} times, dropping it`
+          );
+          return;
+        }
+        setTimeout(
+          () =>
+            this.deliverMessage(listener, messageId, body, receiveCount + 1),
+          this.options.redeliveryDelayMs ?? REDELIVERY_DELAY_MS
+        ).unref();
+      } catch (error) {
+        console.error(`Error in ${listener}:`, error);
+      }
+    });
+  }
+
+  private invokeInBackground(fileName: string, event: unknown): void {
+    setImmediate(() => {
+      this.invoke(fileName, event).catch((error) =>
+        console.error(`Error in ${fileName}:`, error)
+      );
+    });
+  }
+
+  /**
+   * Evaluate generated CommonJS code with AWS SDK modules swapped for local stand-ins
+   */
+  private loadHandler(filename: string, code: string): LambdaHandler {
+    const module = { exports: {} as Record<string, unknown> };
+    const localRequire = (id: string) => this.modules[id] ?? require(id);
+    // Handlers read the environment set by loadFunctions from this process
+    const wrapper = vm.runInThisContext(
+      `(function (exports, require, module, __filename, __dirname, process) {${code}\n})`,
+      { filename }
+    );
+    wrapper(
+      module.exports,
+      localRequire,
+      module,
+      filename,
+      path.dirname(filename),
+      process
+    );
+
+    const handler = module.exports.handler;
+    if (typeof handler !== "function") {
+      throw new Error(
+        `Generated function ${filename} does not export a handler`
+      );
+    }
+    return handler as LambdaHandler;
+  }
+
+  private createS3Module(): Record<string, unknown> {
+    const { dataDir } = this.options;
+    const resolveKey = (key: string) => path.join(dataDir, key);
+
+    // Every bucket maps onto the local data directory
+    const handlers: Record<string, CommandHandler> = {
+      PutObject: async (input) => {
+        const body = isRecord(input) ? input.Body : undefined;
+        if (typeof body !== "string" && !(body instanceof Uint8Array)) {
+          throw new Error("Missing required parameter: Body");
+        }
+        await fs.outputFile(resolveKey(getStringParam(input, "Key")), body);
+        return {};
+      },
+      GetObject: async (input) => {
+        const filePath = resolveKey(getStringParam(input, "Key"));
+        if (!(await fs.pathExists(filePath))) {
+          const error = new Error("The specified key does not exist.");
+          error.name = "NoSuchKey";
+          throw error;
+        }
+        const body = await fs.readFile(filePath);
+        return {
+          Body: {
+            transformToString: async () => body.toString("utf8"),
+            transformToByteArray: async () => new Uint8Array(body),
+          },
+        };
+      },
+      DeleteObject: async (input) => {
+        await fs.remove(resolveKey(getStringParam(input, "Key")));
+        return {};
+      },
+      DeleteObjects: async (input) => {
+        const objects: unknown[] =
+          isRecord(input) &&
+          isRecord(input.Delete) &&
+          Array.isArray(input.Delete.Objects)
+            ? input.Delete.Objects
+            : [];
+        const deleted = [];
+        for (const object of objects) {
+          const key = getStringParam(object, "Key");
+          await fs.remove(resolveKey(key));
+          deleted.push({ Key: key });
+        }
+        return { Deleted: deleted };
+      },
+    };
+
+    return createClientModule("S3Client", handlers);
+  }
+
+  private createSQSModule(): Record<string, unknown> {
+    const handlers: Record<string, CommandHandler> = {
+      SendMessage: async (input) => ({
+        MessageId: this.sendMessage(
+          getStringParam(input, "QueueUrl"),
+          getStringParam(input, "MessageBody")
+        ),
+      }),
+      SendMessageBatch: async (input) => {
+        const queueUrl = getStringParam(input, "QueueUrl");
+        const entries: unknown[] =
+          isRecord(input) && Array.isArray(input.Entries) ? input.Entries : [];
+        return {
+          Successful: entries.map((entry) => ({
+            Id: getStringParam(entry, "Id"),
+            MessageId: this.sendMessage(
+              queueUrl,
+              getStringParam(entry, "MessageBody")
+            ),
+          })),
+          Failed: [],
+        };
+      },
+    };
+
+    return createClientModule("SQSClient", handlers);
+  }
+}
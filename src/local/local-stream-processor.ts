@@ -0,0 +1,132 @@
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { LocalAthenaEngine } from "./local-athena";
+import { LocalDynamoDBTable, LocalStreamRecord } from "./local-dynamodb";
+
+/**
+ * Format date into its year, month, day and hour partition values
+ */
+function formatDateParts(date: Date): Record<string, string> {
+  return {
+    year: String(date.getUTCFullYear()),
+    month: String(date.getUTCMonth() + 1).padStart(2, "0"),
+    day: String(date.getUTCDate()).padStart(2, "0"),
+    hour: String(date.getUTCHours()).padStart(2, "0"),
+  };
+}
+
+function parseItemDate(value: unknown): Date {
+  const date = typeof value === "string" ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Node.js port of the generated Python stream processor for local development
+ * Keeps the local Parquet files in step with the in-memory table, using the same
+ * tables/<table>/<partition path>/<id>.parquet layout as the S3 data lake
+ */
+export class LocalStreamProcessor {
+  constructor(
+    private table: LocalDynamoDBTable,
+    private engine: LocalAthenaEngine,
+    private dataDir: string,
+    private sendCascadeDeletionMessage: (
+      entityType: string,
+      entityId: string
+    ) => void
+  ) {}
+
+  async process(record: LocalStreamRecord): Promise<void> {
+    if (record.eventName === "REMOVE") {
+      await this.handleDelete(record);
+    } else {
+      await this.handleInsertOrUpdate(record);
+    }
+  }
+
+  private async handleDelete(record: LocalStreamRecord): Promise<void> {
+    if (!record.dynamodb.OldImage) {
+      return;
+    }
+    const item = unmarshall(record.dynamodb.OldImage);
+    const entityType = item.entityType;
+
+    // Task entities, temporary joinTableData items and joinRelation metadata have no Parquet file
+    if (
+      !entityType ||
+      entityType === "task" ||
+      entityType === "joinRelation" ||
+      String(item.PK).startsWith("joinTableData#")
+    ) {
+      return;
+    }
+
+    await fs.remove(this.getS3Path(this.getS3Key(entityType, item, item.id)));
+    this.sendCascadeDeletionMessage(entityType, item.id);
+  }
+
+  private async handleInsertOrUpdate(record: LocalStreamRecord): Promise<void> {
+    if (!record.dynamodb.NewImage) {
+      return;
+    }
+    const item = unmarshall(record.dynamodb.NewImage);
+    const entityType = item.entityType;
+
+    if (!entityType || entityType === "task" || entityType === "joinRelation") {
+      return;
+    }
+
+    if (String(item.PK).startsWith("joinTableData#")) {
+      const joinTable = item.joinTableName || item.joinTable;
+      if (!joinTable || !item.relationId) {
+        console.warn("Join table item missing joinTableName or relationId");
+        return;
+      }
+      await this.engine.writeParquet(
+        joinTable,
+        item,
+        this.getS3Path(this.getS3Key(joinTable, item, item.relationId))
+      );
+
+      // Delete the temporary joinTableData item after processing
+      await this.table.execute("DeleteItem", {
+        Key: { PK: { S: item.PK }, SK: { S: item.SK } },
+      });
+      return;
+    }
+
+    const s3Key = this.getS3Key(entityType, item, item.id);
+    await this.engine.writeParquet(entityType, item, this.getS3Path(s3Key));
+
+    // An update of a partition field moves the row, so drop its file in the old partition
+    if (record.eventName === "MODIFY" && record.dynamodb.OldImage) {
+      const oldItem = unmarshall(record.dynamodb.OldImage);
+      const oldS3Key = this.getS3Key(entityType, oldItem, item.id);
+      if (oldS3Key !== s3Key) {
+        await fs.remove(this.getS3Path(oldS3Key));
+      }
+    }
+  }
+
+  private getS3Key(
+    tableName: string,
+    item: Record<string, any>,
+    fileId: string
+  ): string {
+    // Use the time field (createdAt by default) so updates go to the same partition as the original creation
+    const layout = this.engine.getPartitionLayout(tableName);
+    const dateParts = formatDateParts(
+      parseItemDate(item[layout.time] || item.createdAt)
+    );
+    const partitionPath = [
+      ...layout.by.map((field) => `${field}=${item[field]}`),
+      ...layout.timeKeys.map((key) => `${key}=${dateParts[key]}`),
+    ].join("/");
+    return `tables/${tableName}/${partitionPath}/${fileId}.parquet`;
+  }
+
+  private getS3Path(s3Key: string): string {
+    return path.join(this.dataDir, s3Key);
+  }
+}
@@ -8,21 +8,52 @@ import {
   ArgumentNode,
   StringValueNode,
   EnumTypeDefinitionNode,
+  ObjectValueNode,
+  print,
 } from "graphql";
 
+// TASK: triggerTask/taskResult only, SYNC: also a direct Query field that waits
+export type SqlQueryMode = "TASK" | "SYNC";
+
 export interface SqlQueryDirective {
   query: string;
+  // Seconds a running or succeeded task is reused for identical SQL (Query fields)
+  cacheTtlSeconds?: number;
+  mode?: SqlQueryMode;
+  // How long a SYNC query waits for Athena before returning the running task
+  timeoutSeconds?: number;
 }
 
+const DEFAULT_SYNC_TIMEOUT_SECONDS = 20;
+
 export interface ReturnDirective {
   value: string;
 }
 
+export type AuthStrategy = "owner" | "groups" | "private";
+
+export interface AuthRule {
+  allow: AuthStrategy;
+  groups?: string[];
+  ownerField?: string;
+}
+
+export type PartitionGranularity = "YEAR" | "MONTH" | "DAY" | "HOUR";
+
+// @partition(by: ["tenantId"], time: "createdAt", granularity: HOUR)
+export interface PartitionDirective {
+  by: string[];
+  time: string;
+  granularity: PartitionGranularity;
+}
+
 export interface ArgumentMetadata {
   name: string;
   type: string;
   isRequired: boolean;
   isList: boolean;
+  // GraphQL literal of the default value, e.g. "7" or "\"ACTIVE\""
+  defaultValue?: string;
 }
 
 export interface FieldMetadata {
@@ -34,6 +65,7 @@ export interface FieldMetadata {
   sqlQuery?: SqlQueryDirective;
   returnValue?: ReturnDirective;
   isTask?: boolean;
+  authRules?: AuthRule[];
 }
 
 export interface TypeMetadata {
@@ -41,13 +73,20 @@ export interface TypeMetadata {
   fields: FieldMetadata[];
   isPrimitive: boolean;
   isTaskResponse?: boolean;
+  authRules?: AuthRule[];
+  partition?: PartitionDirective;
+}
+
+export interface EnumMetadata {
+  name: string;
+  values: string[];
 }
 
 export interface SchemaMetadata {
   types: TypeMetadata[];
   queries: FieldMetadata[];
   mutations: FieldMetadata[];
-  enums: string[];
+  enums: EnumMetadata[];
   joinTables: string[];
 }
 
@@ -141,7 +180,7 @@ export class SchemaParser {
     const types: TypeMetadata[] = [];
     const queries: FieldMetadata[] = [];
     const mutations: FieldMetadata[] = [];
-    const enums: string[] = [];
+    const enums: EnumMetadata[] = [];
     const joinTables = new Set<string>();
 
     for (const definition of this.document.definitions) {
@@ -161,7 +200,10 @@ export class SchemaParser {
         }
       } else if (definition.kind === "EnumTypeDefinition") {
         const enumDef = definition as EnumTypeDefinitionNode;
-        enums.push(enumDef.name.value);
+        enums.push({
+          name: enumDef.name.value,
+          values: (enumDef.values || []).map((value) => value.name.value),
+        });
       }
     }
 
@@ -189,6 +231,8 @@ export class SchemaParser {
       fields: this.parseFields(typeDef.fields || [], joinTables),
       isPrimitive,
       isTaskResponse,
+      authRules: this.extractAuthDirective(typeDef.directives),
+      partition: this.extractPartitionDirective(typeDef.directives),
     };
   }
 
@@ -205,6 +249,7 @@ export class SchemaParser {
       const sqlQuery = this.extractSqlQueryDirective(field.directives);
       const returnValue = this.extractReturnDirective(field.directives);
       const fieldArguments = this.extractFieldArguments(field.arguments);
+      const authRules = this.extractAuthDirective(field.directives);
       // All Query fields are automatically tasks (no @task directive needed)
       const isTask = isQueryType;
 
@@ -224,6 +269,7 @@ export class SchemaParser {
         sqlQuery,
         returnValue,
         isTask,
+        authRules,
       };
     });
   }
@@ -263,9 +309,26 @@ export class SchemaParser {
     if (!directive) return undefined;
 
     const queryArg = this.findArgument("query", directive.arguments);
+    const cacheTtlArg = this.findArgument(
+      "cacheTtlSeconds",
+      directive.arguments
+    );
+    const modeArg = this.findArgument("mode", directive.arguments);
+    const timeoutArg = this.findArgument("timeoutSeconds", directive.arguments);
+    const mode: SqlQueryMode =
+      modeArg?.value.kind === "EnumValue" && modeArg.value.value === "SYNC"
+        ? "SYNC"
+        : "TASK";
 
     return {
       query: this.getStringValue(queryArg?.value),
+      cacheTtlSeconds: this.getIntValue(cacheTtlArg?.value),
+      mode,
+      timeoutSeconds:
+        mode === "SYNC"
+          ? (this.getIntValue(timeoutArg?.value) ??
+            DEFAULT_SYNC_TIMEOUT_SECONDS)
+          : undefined,
     };
   }
 
@@ -282,6 +345,67 @@ export class SchemaParser {
     };
   }
 
+  private extractAuthDirective(
+    directives?: readonly DirectiveNode[]
+  ): AuthRule[] | undefined {
+    const directive = this.findDirective("auth", directives);
+    if (!directive) return undefined;
+
+    // @auth(rules: [{allow: owner, ownerField: "userId"}, {allow: groups, groups: ["admin"]}])
+    const rulesArg = this.findArgument("rules", directive.arguments);
+    if (rulesArg?.value.kind !== "ListValue") {
+      return [];
+    }
+
+    return rulesArg.value.values
+      .filter((value) => value.kind === "ObjectValue")
+      .map((value) => {
+        const fields = (value as ObjectValueNode).fields;
+        const getField = (name: string) =>
+          fields.find((field) => field.name.value === name)?.value;
+
+        const allow = getField("allow");
+        const groups = getField("groups");
+        const ownerField = getField("ownerField");
+
+        return {
+          allow: (allow?.kind === "EnumValue" || allow?.kind === "StringValue"
+            ? allow.value
+            : "") as AuthStrategy,
+          groups:
+            groups?.kind === "ListValue"
+              ? groups.values.map((group) => this.getStringValue(group))
+              : undefined,
+          ownerField: ownerField ? this.getStringValue(ownerField) : undefined,
+        };
+      });
+  }
+
+  private extractPartitionDirective(
+    directives?: readonly DirectiveNode[]
+  ): PartitionDirective | undefined {
+    const directive = this.findDirective("partition", directives);
+    if (!directive) return undefined;
+
+    const byArg = this.findArgument("by", directive.arguments);
+    const timeArg = this.findArgument("time", directive.arguments);
+    const granularityArg = this.findArgument(
+      "granularity",
+      directive.arguments
+    );
+
+    return {
+      by:
+        byArg?.value.kind === "ListValue"
+          ? byArg.value.values.map((value) => this.getStringValue(value))
+          : [],
+      time: this.getStringValue(timeArg?.value) || "createdAt",
+      granularity: (granularityArg?.value.kind === "EnumValue"
+        ? granularityArg.value.value
+        : "DAY") as PartitionGranularity,
+    };
+  }
+
   private extractJoinTablesFromQuery(
     query: string,
     joinTables: Set<string>
@@ -304,6 +428,7 @@ export class SchemaParser {
         type: argType.type,
         isRequired: argType.isRequired,
         isList: argType.isList,
+        defaultValue: arg.defaultValue ? print(arg.defaultValue) : undefined,
       };
     });
   }
@@ -336,6 +461,13 @@ export class SchemaParser {
     return "";
   }
 
+  private getIntValue(value?: any): number | undefined {
+    if (value?.kind === "IntValue") {
+      return parseInt(value.value, 10);
+    }
+    return undefined;
+  }
+
   private getBooleanValue(value?: any): boolean {
     if (value?.kind === "BooleanValue") {
       return value.value;
@@ -0,0 +1,71 @@
+import {
+  getAuthDirectives,
+  parseAuthConfig,
+  resolveAuthConfig,
+  withAuthMode,
+} from "./auth-config";
+
+describe("parseAuthConfig", () => {
+  it("defaults to API key auth", () => {
+    expect(parseAuthConfig({})).toMatchObject({
+      defaultMode: "API_KEY",
+      additionalModes: [],
+    });
+  });
+
+  it("drops duplicate additional modes and the default mode", () => {
+    const config = parseAuthConfig({
+      auth: "cognito",
+      additionalAuth: "iam, cognito,iam,,lambda",
+    });
+    expect(config.defaultMode).toBe("AMAZON_COGNITO_USER_POOLS");
+    expect(config.additionalModes).toEqual(["AWS_IAM", "AWS_LAMBDA"]);
+  });
+
+  it("rejects unknown modes", () => {
+    expect(() => parseAuthConfig({ auth: "basic" })).toThrow(
+      "Invalid auth mode: basic"
+    );
+  });
+});
+
+describe("resolveAuthConfig", () => {
+  it("requires the settings of every selected mode", () => {
+    expect(() => resolveAuthConfig({ auth: "cognito" })).toThrow(
+      "Cognito auth requires --user-pool-id"
+    );
+    expect(() => resolveAuthConfig({ additionalAuth: "oidc" })).toThrow(
+      "OIDC auth requires --oidc-issuer"
+    );
+    expect(() => resolveAuthConfig({ additionalAuth: "lambda" })).toThrow(
+      "Lambda auth requires --lambda-authorizer-arn"
+    );
+  });
+
+  it("accepts modes with their settings", () => {
+    expect(
+      resolveAuthConfig({ auth: "cognito", userPoolId: "us-east-1_pool" })
+    ).toMatchObject({ userPoolId: "us-east-1_pool" });
+  });
+});
+
+describe("getAuthDirectives", () => {
+  it("leaves types unannotated with a single mode", () => {
+    expect(getAuthDirectives(parseAuthConfig({}))).toEqual([]);
+  });
+
+  it("lists the default mode next to additional modes", () => {
+    expect(
+      getAuthDirectives(parseAuthConfig({ additionalAuth: "iam" }))
+    ).toEqual(["@aws_api_key", "@aws_iam"]);
+  });
+});
+
+describe("withAuthMode", () => {
+  it("adds a mode only once", () => {
+    const config = withAuthMode(parseAuthConfig({}), "AWS_IAM");
+    expect(config.additionalModes).toEqual(["AWS_IAM"]);
+    expect(withAuthMode(config, "AWS_IAM")).toBe(config);
+    expect(withAuthMode(config, "API_KEY")).toBe(config);
+  });
+});
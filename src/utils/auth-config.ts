@@ -0,0 +1,137 @@
+/**
+ * AppSync authorization modes supported by generated APIs
+ */
+export type AuthMode =
+  | "API_KEY"
+  | "AMAZON_COGNITO_USER_POOLS"
+  | "OPENID_CONNECT"
+  | "AWS_IAM"
+  | "AWS_LAMBDA";
+
+export interface AuthConfig {
+  defaultMode: AuthMode;
+  additionalModes: AuthMode[];
+  userPoolId?: string;
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  lambdaAuthorizerArn?: string;
+}
+
+/**
+ * Auth options as passed on the command line
+ */
+export interface AuthCliOptions {
+  auth?: string;
+  additionalAuth?: string;
+  userPoolId?: string;
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  lambdaAuthorizerArn?: string;
+}
+
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  defaultMode: "API_KEY",
+  additionalModes: [],
+};
+
+const AUTH_MODE_NAMES: Record<string, AuthMode> = {
+  "api-key": "API_KEY",
+  cognito: "AMAZON_COGNITO_USER_POOLS",
+  oidc: "OPENID_CONNECT",
+  iam: "AWS_IAM",
+  lambda: "AWS_LAMBDA",
+};
+
+const AUTH_MODE_DIRECTIVES: Record<AuthMode, string> = {
+  API_KEY: "@aws_api_key",
+  AMAZON_COGNITO_USER_POOLS: "@aws_cognito_user_pools",
+  OPENID_CONNECT: "@aws_oidc",
+  AWS_IAM: "@aws_iam",
+  AWS_LAMBDA: "@aws_lambda",
+};
+
+/**
+ * Parse a CLI auth mode name (api-key, cognito, oidc, iam, lambda)
+ */
+export function parseAuthMode(name: string): AuthMode {
+  const mode = AUTH_MODE_NAMES[name.trim().toLowerCase()];
+  if (!mode) {
+    throw new Error(
+      `Invalid auth mode: ${name}. Supported modes: ${Object.keys(AUTH_MODE_NAMES).join(", ")}`
+    );
+  }
+  return mode;
+}
+
+/**
+ * Build the auth configuration from CLI options without checking mode settings
+ */
+export function parseAuthConfig(options: AuthCliOptions): AuthConfig {
+  const defaultMode = parseAuthMode(options.auth || "api-key");
+  const additionalModes = (options.additionalAuth || "")
+    .split(",")
+    .filter((name) => name.trim().length > 0)
+    .map(parseAuthMode)
+    .filter((mode, index, modes) => modes.indexOf(mode) === index)
+    .filter((mode) => mode !== defaultMode);
+
+  return {
+    defaultMode,
+    additionalModes,
+    userPoolId: options.userPoolId,
+    oidcIssuer: options.oidcIssuer,
+    oidcClientId: options.oidcClientId,
+    lambdaAuthorizerArn: options.lambdaAuthorizerArn,
+  };
+}
+
+/**
+ * Build the auth configuration from CLI options and check that every
+ * selected mode has the settings it needs
+ */
+export function resolveAuthConfig(options: AuthCliOptions): AuthConfig {
+  const config = parseAuthConfig(options);
+
+  const modes = getAuthModes(config);
+  if (modes.includes("AMAZON_COGNITO_USER_POOLS") && !config.userPoolId) {
+    throw new Error("Cognito auth requires --user-pool-id");
+  }
+  if (modes.includes("OPENID_CONNECT") && !config.oidcIssuer) {
+    throw new Error("OIDC auth requires --oidc-issuer");
+  }
+  if (modes.includes("AWS_LAMBDA") && !config.lambdaAuthorizerArn) {
+    throw new Error("Lambda auth requires --lambda-authorizer-arn");
+  }
+
+  return config;
+}
+
+/**
+ * All configured modes, default mode first
+ */
+export function getAuthModes(config: AuthConfig): AuthMode[] {
+  return [config.defaultMode, ...config.additionalModes];
+}
+
+/**
+ * AppSync auth directives to put on every object type
+ * With a single mode AppSync applies the default everywhere, so none are needed.
+ * Once additional modes exist, annotated types only accept the listed modes,
+ * which must then include the default mode as well.
+ */
+export function getAuthDirectives(config: AuthConfig): string[] {
+  if (config.additionalModes.length === 0) {
+    return [];
+  }
+  return getAuthModes(config).map((mode) => AUTH_MODE_DIRECTIVES[mode]);
+}
+
+/**
+ * Add an auth mode as an additional mode unless it is already configured
+ */
+export function withAuthMode(config: AuthConfig, mode: AuthMode): AuthConfig {
+  if (getAuthModes(config).includes(mode)) {
+    return config;
+  }
+  return { ...config, additionalModes: [...config.additionalModes, mode] };
+}
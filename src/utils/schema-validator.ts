@@ -1,8 +1,45 @@
 import {
   buildSchema,
+  DirectiveNode,
   GraphQLError,
+  GraphQLSchema,
+  getNullableType,
+  isEnumType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
   validateSchema as graphqlValidateSchema,
 } from "graphql";
+import {
+  SqlTemplateNode,
+  compileSqlTemplate,
+  getSqlTemplateConditions,
+  getSqlTemplateParams,
+} from "../generators/sql-template";
+import {
+  findUnfilteredInjectedKeys,
+  findUnprunedTables,
+} from "../generators/partition-pruning";
+import {
+  TableFormat,
+  getInjectedPartitionKeys,
+  getTablePartitionLayouts,
+} from "../infrastructure/glue-schema";
+import { SchemaMetadata, SchemaParser } from "../parsers/schema-parser";
+import { AuthConfig, getAuthModes } from "./auth-config";
+import {
+  getUnparsableSqlQueries,
+  validateSqlQueryReferences,
+} from "./sql-query-validator";
+
+export interface SchemaValidationOptions {
+  // Auth modes the API will be deployed with, when known
+  authConfig?: AuthConfig;
+  // Table format the queries will run against; Iceberg tables have no
+  // year/month/day columns
+  tableFormat?: TableFormat;
+}
 
 /**
  * Pre-processes schema to add missing return types for mutations
@@ -83,16 +120,41 @@ function preprocessSchema(schemaString: string): string {
   return schemaString.replace(mutationTypePattern, `$1${processedFields}$3`);
 }
 
-export async function validateSchema(schemaString: string): Promise<void> {
+export async function validateSchema(
+  schemaString: string,
+  options: SchemaValidationOptions = {}
+): Promise<void> {
   try {
     // Pre-process schema to add missing return types
     const preprocessedSchema = preprocessSchema(schemaString);
 
     // Add custom directive definitions to make schema valid for GraphQL validation
     const directiveDefinitions = `
-      directive @sql_query(query: String!) on FIELD_DEFINITION
+      directive @sql_query(query: String!, cacheTtlSeconds: Int, mode: SqlQueryMode, timeoutSeconds: Int) on FIELD_DEFINITION
+      enum SqlQueryMode {
+        TASK
+        SYNC
+      }
       directive @return(value: String!) on FIELD_DEFINITION
       directive @task_response on OBJECT
+      directive @auth(rules: [AuthRule!]!) on OBJECT | FIELD_DEFINITION
+      input AuthRule {
+        allow: AuthStrategy!
+        groups: [String!]
+        ownerField: String
+      }
+      enum AuthStrategy {
+        owner
+        groups
+        private
+      }
+      directive @partition(by: [String!], time: String, granularity: PartitionGranularity) on OBJECT
+      enum PartitionGranularity {
+        YEAR
+        MONTH
+        DAY
+        HOUR
+      }
     `;
 
     const schemaWithDirectives =
@@ -111,11 +173,35 @@ export async function validateSchema(schemaString: string): Promise<void> {
     // Validate custom directives
     validateCustomDirectives(schemaString);
 
+    // Validate @auth rules
+    validateAuthDirectives(schema);
+
+    // Validate @partition layouts
+    validatePartitionDirectives(schema);
+
+    // Validate $identity placeholders
+    validateIdentityPlaceholders(schemaString, options.authConfig);
+
+    // Validate @sql_query templates: {{#if}} blocks and list placeholders
+    validateSqlTemplates(schema);
+
+    // Validate @sql_query options such as cacheTtlSeconds
+    validateSqlQueryOptions(schema);
+
     // Validate DELETE queries use $join_table()
     validateDeleteQueries(schemaString);
 
     // Validate type structure
     validateTypeStructure(schemaString);
+
+    // Validate @sql_query tables, columns and arguments
+    const schemaMetadata = new SchemaParser(schemaString).parse();
+    validateSqlQueryReferences(schemaMetadata, options.tableFormat);
+
+    // Validate queries filter injected partition keys
+    if ((options.tableFormat || "hive") === "hive") {
+      validateInjectedPartitionFilters(schemaMetadata);
+    }
   } catch (error) {
     if (error instanceof GraphQLError) {
       throw new Error(`Schema syntax error: ${error.message}`);
@@ -124,11 +210,41 @@ export async function validateSchema(schemaString: string): Promise<void> {
   }
 }
 
+/**
+ * Non-fatal findings for a valid schema
+ * SELECT queries that neither filter the time column nor the time partitions
+ * of a table read every partition of it, which grows with the table. DELETE
+ * mutations are left out: they run rarely and join-table deletes are keyed by
+ * relation. Queries the SQL grammar can't parse skip the table and column checks.
+ */
+export function getSchemaWarnings(schemaString: string): string[] {
+  const schemaMetadata = new SchemaParser(schemaString).parse();
+  const layouts = getTablePartitionLayouts(schemaMetadata);
+  const warnings: string[] = getUnparsableSqlQueries(schemaMetadata);
+
+  for (const field of schemaMetadata.queries) {
+    const query = field.sqlQuery?.query;
+    if (!query || !/^\s*(SELECT|WITH)\b/i.test(query)) {
+      continue;
+    }
+    for (const table of findUnprunedTables(query, layouts)) {
+      const time = layouts.get(table)!.time;
+      warnings.push(
+        `Query.${field.name} reads '${table}' without a filter on ${time} or its partitions; Athena scans every partition of the table`
+      );
+    }
+  }
+
+  return warnings;
+}
+
 function validateCustomDirectives(schemaString: string): void {
   const validDirectives = [
     "@sql_query",
     "@return",
     "@task_response",
+    "@auth",
+    "@partition",
     "@skip",
     "@include",
     "@deprecated",
@@ -169,9 +285,361 @@ function validateCustomDirectives(schemaString: string): void {
   }
 }
 
+function validateAuthDirectives(schema: GraphQLSchema): void {
+  const rootTypes = ["Query", "Mutation"];
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!isObjectType(type) || type.name.startsWith("__")) {
+      continue;
+    }
+    const isRootType = rootTypes.includes(type.name);
+    const typeDirectives = type.astNode?.directives || [];
+    const typeAuth = typeDirectives.find((d) => d.name.value === "auth");
+
+    if (typeAuth) {
+      if (isRootType) {
+        throw new Error(
+          `@auth cannot be used on type '${type.name}'. Put it on individual ${type.name} fields instead`
+        );
+      }
+      if (typeDirectives.some((d) => d.name.value === "task_response")) {
+        throw new Error(
+          `@auth cannot be used on @task_response type '${type.name}'. Put it on the Query field instead`
+        );
+      }
+      validateAuthRules(typeAuth, `type '${type.name}'`, true);
+    }
+
+    for (const field of Object.values(type.getFields())) {
+      const fieldAuth = field.astNode?.directives?.find(
+        (d) => d.name.value === "auth"
+      );
+      if (!fieldAuth) {
+        continue;
+      }
+      if (!isRootType) {
+        throw new Error(
+          `@auth on field '${type.name}.${field.name}' is not supported. Use a type-level @auth rule instead`
+        );
+      }
+      // Owner rules need a stored item to compare against, so fields only take group rules
+      validateAuthRules(fieldAuth, `field '${type.name}.${field.name}'`, false);
+    }
+  }
+}
+
+function validateAuthRules(
+  directive: DirectiveNode,
+  location: string,
+  allowOwner: boolean
+): void {
+  const rulesArg = directive.arguments?.find((a) => a.name.value === "rules");
+  const rules =
+    rulesArg?.value.kind === "ListValue" ? rulesArg.value.values : [];
+
+  if (rules.length === 0) {
+    throw new Error(`@auth on ${location} must define at least one rule`);
+  }
+
+  for (const rule of rules) {
+    if (rule.kind !== "ObjectValue") {
+      throw new Error(`Invalid @auth rule on ${location}`);
+    }
+    const allowField = rule.fields.find((f) => f.name.value === "allow");
+    const allow =
+      allowField?.value.kind === "EnumValue" ? allowField.value.value : "";
+    const groupsField = rule.fields.find((f) => f.name.value === "groups");
+
+    if (!["owner", "groups", "private"].includes(allow)) {
+      throw new Error(
+        `Invalid @auth rule on ${location}: allow must be owner, groups or private`
+      );
+    }
+    if (allow === "owner" && !allowOwner) {
+      throw new Error(
+        `Invalid @auth rule on ${location}: owner rules can only be used on entity types`
+      );
+    }
+    if (
+      allow === "groups" &&
+      (groupsField?.value.kind !== "ListValue" ||
+        groupsField.value.values.length === 0)
+    ) {
+      throw new Error(
+        `Invalid @auth rule on ${location}: groups rules must list at least one group`
+      );
+    }
+  }
+}
+
+/**
+ * Hive tables project non-enum @partition(by:) fields as injected values, and
+ * Athena rejects queries that don't filter them with = or IN
+ */
+function validateInjectedPartitionFilters(
+  schemaMetadata: SchemaMetadata
+): void {
+  const injectedKeys = new Map<string, string[]>();
+  for (const type of schemaMetadata.types) {
+    const keys = getInjectedPartitionKeys(type, schemaMetadata);
+    if (!type.isPrimitive && !type.isTaskResponse && keys.length > 0) {
+      injectedKeys.set(type.name.toLowerCase(), keys);
+    }
+  }
+
+  for (const field of schemaMetadata.queries) {
+    const query = field.sqlQuery?.query;
+    if (!query || !/^\s*(SELECT|WITH)\b/i.test(query)) {
+      continue;
+    }
+    const [unfiltered] = findUnfilteredInjectedKeys(query, injectedKeys);
+    if (unfiltered) {
+      throw new Error(
+        `Invalid @sql_query on Query.${field.name}: '${unfiltered.table}' is partitioned by ${unfiltered.key}, so the query has to filter ${unfiltered.key} with = or IN outside {{#if}} blocks`
+      );
+    }
+  }
+}
+
+function validatePartitionDirectives(schema: GraphQLSchema): void {
+  const timeKeys = ["year", "month", "day", "hour"];
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!isObjectType(type) || type.name.startsWith("__")) {
+      continue;
+    }
+    const typeDirectives = type.astNode?.directives || [];
+    const partition = typeDirectives.find((d) => d.name.value === "partition");
+    if (!partition) {
+      continue;
+    }
+    const location = `@partition on type '${type.name}'`;
+
+    if (["Query", "Mutation", "Subscription"].includes(type.name)) {
+      throw new Error(
+        `${location} is not supported: only entity types are partitioned`
+      );
+    }
+    if (typeDirectives.some((d) => d.name.value === "task_response")) {
+      throw new Error(
+        `${location} is not supported: @task_response types have no table`
+      );
+    }
+
+    const getArg = (name: string) =>
+      partition.arguments?.find((a) => a.name.value === name)?.value;
+    const fields = type.getFields();
+
+    // Partition values become S3 path segments, so every item needs one
+    const byArg = getArg("by");
+    const byFields =
+      byArg?.kind === "ListValue"
+        ? byArg.values.map((value) =>
+            value.kind === "StringValue" ? value.value : ""
+          )
+        : [];
+    for (const fieldName of byFields) {
+      const field = fields[fieldName];
+      if (!field) {
+        throw new Error(`${location}: field '${fieldName}' does not exist`);
+      }
+      if (timeKeys.includes(fieldName.toLowerCase())) {
+        throw new Error(
+          `${location}: field '${fieldName}' collides with the ${fieldName.toLowerCase()} time partition`
+        );
+      }
+      const fieldType = getNullableType(field.type);
+      if (
+        !isNonNullType(field.type) ||
+        isListType(fieldType) ||
+        !(
+          isEnumType(fieldType) ||
+          (isScalarType(fieldType) && ["String", "ID"].includes(fieldType.name))
+        )
+      ) {
+        throw new Error(
+          `${location}: field '${fieldName}' must be a non-null String, ID or enum`
+        );
+      }
+    }
+    if (new Set(byFields).size !== byFields.length) {
+      throw new Error(`${location}: partition fields must be unique`);
+    }
+
+    const granularity = getArg("granularity");
+    if (
+      granularity &&
+      (granularity.kind !== "EnumValue" ||
+        !["YEAR", "MONTH", "DAY", "HOUR"].includes(granularity.value))
+    ) {
+      throw new Error(
+        `${location}: granularity must be YEAR, MONTH, DAY or HOUR`
+      );
+    }
+
+    // createdAt is always stored, other time fields must be declared timestamps
+    const timeArg = getArg("time");
+    const timeField =
+      timeArg?.kind === "StringValue" ? timeArg.value : "createdAt";
+    const timeFieldType = fields[timeField]
+      ? getNullableType(fields[timeField].type)
+      : undefined;
+    if (
+      (timeFieldType || timeField !== "createdAt") &&
+      !(isScalarType(timeFieldType) && timeFieldType.name === "AWSDateTime")
+    ) {
+      throw new Error(
+        `${location}: time field '${timeField}' must be an AWSDateTime field`
+      );
+    }
+  }
+}
+
+function validateIdentityPlaceholders(
+  schemaString: string,
+  authConfig?: AuthConfig
+): void {
+  const placeholders = schemaString.match(/\$identity\.[\w.:-]+/g) || [];
+  if (placeholders.length === 0) {
+    return;
+  }
+
+  for (const placeholder of placeholders) {
+    if (
+      !/^\$identity\.(sub|username|groups|claims\.[\w:]+)$/.test(placeholder)
+    ) {
+      throw new Error(
+        `Invalid identity placeholder: ${placeholder}. Use $identity.sub, $identity.username, $identity.groups or $identity.claims.<name>`
+      );
+    }
+  }
+
+  // API key callers have no identity to substitute
+  if (
+    authConfig &&
+    getAuthModes(authConfig).every((mode) => mode === "API_KEY")
+  ) {
+    throw new Error(
+      `${placeholders[0]} requires an identity-based auth mode (cognito, oidc, iam or lambda), but only API key auth is configured`
+    );
+  }
+}
+
+function validateSqlTemplates(schema: GraphQLSchema): void {
+  for (const typeName of ["Query", "Mutation"]) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type)) {
+      continue;
+    }
+
+    for (const field of Object.values(type.getFields())) {
+      const sqlQuery = field.astNode?.directives?.find(
+        (d) => d.name.value === "sql_query"
+      );
+      const queryArg = sqlQuery?.arguments?.find(
+        (a) => a.name.value === "query"
+      );
+      if (queryArg?.value.kind !== "StringValue") {
+        continue;
+      }
+
+      const location = `${typeName}.${field.name}`;
+      let template: SqlTemplateNode[];
+      try {
+        template = compileSqlTemplate(queryArg.value.value);
+      } catch (error) {
+        throw new Error(
+          `Invalid @sql_query on ${location}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+
+      const argNames = field.args.map((arg) => arg.name);
+      for (const argument of getSqlTemplateConditions(template)) {
+        if (!argNames.includes(argument)) {
+          throw new Error(
+            `Invalid @sql_query on ${location}: {{#if args.${argument}}} references an undeclared argument`
+          );
+        }
+      }
+
+      const listArgs = field.args
+        .filter((arg) => isListType(getNullableType(arg.type)))
+        .map((arg) => arg.name);
+      const params = getSqlTemplateParams(template);
+
+      for (const param of params) {
+        const isList =
+          param.source === "identity"
+            ? param.name === "groups"
+            : listArgs.includes(param.name);
+        if (isList && (param.mode !== "bind" || !param.inClause)) {
+          throw new Error(
+            `List placeholder $${param.source}.${param.name} in ${location} can only be used in an IN clause, e.g. WHERE id IN $${param.source}.${param.name}`
+          );
+        }
+      }
+    }
+  }
+}
+
+function validateSqlQueryOptions(schema: GraphQLSchema): void {
+  for (const typeName of ["Query", "Mutation"]) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type)) {
+      continue;
+    }
+
+    for (const field of Object.values(type.getFields())) {
+      const sqlQuery = field.astNode?.directives?.find(
+        (d) => d.name.value === "sql_query"
+      );
+      const getArg = (name: string) =>
+        sqlQuery?.arguments?.find((a) => a.name.value === name)?.value;
+      const location = `${typeName}.${field.name}`;
+
+      // Only Query fields run as tasks, which can be reused or awaited
+      for (const option of ["cacheTtlSeconds", "mode", "timeoutSeconds"]) {
+        if (getArg(option) && typeName !== "Query") {
+          throw new Error(
+            `Invalid @sql_query on ${location}: ${option} is only supported on Query fields`
+          );
+        }
+      }
+
+      const cacheTtl = getArg("cacheTtlSeconds");
+      if (
+        cacheTtl &&
+        (cacheTtl.kind !== "IntValue" || parseInt(cacheTtl.value, 10) <= 0)
+      ) {
+        throw new Error(
+          `Invalid @sql_query on ${location}: cacheTtlSeconds must be a positive integer`
+        );
+      }
+
+      const mode = getArg("mode");
+      const timeout = getArg("timeoutSeconds");
+      if (timeout) {
+        if (mode?.kind !== "EnumValue" || mode.value !== "SYNC") {
+          throw new Error(
+            `Invalid @sql_query on ${location}: timeoutSeconds requires mode: SYNC`
+          );
+        }
+        // AppSync stops waiting for a resolver after 30 seconds
+        const seconds =
+          timeout.kind === "IntValue" ? parseInt(timeout.value, 10) : 0;
+        if (seconds < 1 || seconds > 25) {
+          throw new Error(
+            `Invalid @sql_query on ${location}: timeoutSeconds must be between 1 and 25`
+          );
+        }
+      }
+    }
+  }
+}
+
 function validateDeleteQueries(schemaString: string): void {
   // Extract Mutation type
-  const mutationTypePattern = /type\s+Mutation\s*{([\s\S]*?)}/;
+  const mutationTypePattern = /type\s+Mutation\s*{([\s\S]*?)^}/m;
   const mutationMatch = schemaString.match(mutationTypePattern);
 
   if (!mutationMatch) {
@@ -292,7 +760,7 @@ function validateTypeStructure(schemaString: string): void {
 
 function validateQueryTaskResponse(schemaString: string): void {
   // Extract all Query fields (all Query fields are automatically tasks)
-  const queryTypePattern = /type\s+Query\s*{([\s\S]*?)}/;
+  const queryTypePattern = /type\s+Query\s*{([\s\S]*?)^}/m;
   const queryMatch = schemaString.match(queryTypePattern);
 
   if (!queryMatch) {
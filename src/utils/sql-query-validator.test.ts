@@ -0,0 +1,94 @@
+import { SchemaParser } from "../parsers/schema-parser";
+import {
+  getUnparsableSqlQueries,
+  validateSqlQueryReferences,
+} from "./sql-query-validator";
+
+const TYPES = `
+type Product {
+  id: ID!
+  name: String!
+  price: Float!
+  createdAt: AWSDateTime
+}
+
+type ProductCount @task_response {
+  total: Int!
+}
+`;
+
+const parseQuery = (field: string) =>
+  new SchemaParser(`${TYPES}\ntype Query {\n  ${field}\n}`).parse();
+
+describe("validateSqlQueryReferences", () => {
+  it("accepts queries reading existing tables, columns and arguments", () => {
+    expect(() =>
+      validateSqlQueryReferences(
+        parseQuery(
+          `productCount(minPrice: Float!): ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM product p WHERE p.price >= $args.minPrice AND p.year = '2025'")`
+        )
+      )
+    ).not.toThrow();
+  });
+
+  it("rejects unknown tables", () => {
+    expect(() =>
+      validateSqlQueryReferences(
+        parseQuery(
+          `productCount: ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM products")`
+        )
+      )
+    ).toThrow(
+      "Invalid @sql_query on Query.productCount: table 'products' does not exist"
+    );
+  });
+
+  it("rejects unknown columns", () => {
+    expect(() =>
+      validateSqlQueryReferences(
+        parseQuery(
+          `productCount: ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE prcie > 1")`
+        )
+      )
+    ).toThrow(
+      "Invalid @sql_query on Query.productCount: column 'prcie' does not exist in product"
+    );
+  });
+
+  it("rejects placeholders for unknown arguments", () => {
+    expect(() =>
+      validateSqlQueryReferences(
+        parseQuery(
+          `productCount(minPrice: Float!): ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE price >= $args.min")`
+        )
+      )
+    ).toThrow(
+      "Invalid @sql_query on Query.productCount: $args.min is not an argument of the field"
+    );
+  });
+});
+
+describe("getUnparsableSqlQueries", () => {
+  const unparsable = parseQuery(
+    `productCount(since: AWSDateTime!): ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM product WHERE createdAt AT TIME ZONE 'UTC' > $args.since")`
+  );
+
+  it("reports queries the grammar can't parse instead of failing", () => {
+    expect(() => validateSqlQueryReferences(unparsable)).not.toThrow();
+    const warnings = getUnparsableSqlQueries(unparsable);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(
+      /^@sql_query on Query\.productCount could not be parsed, so its tables and columns are not checked/
+    );
+  });
+
+  it("reports nothing for parsable queries", () => {
+    expect(
+      getUnparsableSqlQueries(
+        parseQuery(
+          `productCount: ProductCount @sql_query(query: "SELECT COUNT(*) AS total FROM product")`
+        )
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,529 @@
+import { Parser } from "node-sql-parser/build/athena";
+import {
+  SqlTemplateNode,
+  compileSqlTemplate,
+  getSqlTemplateParams,
+} from "../generators/sql-template";
+import {
+  TableFormat,
+  getEntityTableColumns,
+  getJoinTableColumns,
+  getPartitionLayout,
+} from "../infrastructure/glue-schema";
+import {
+  FieldMetadata,
+  SchemaMetadata,
+  TypeMetadata,
+} from "../parsers/schema-parser";
+
+/**
+ * Static checks of @sql_query templates against the generated Glue tables
+ *
+ * Templates are rendered with every {{#if}} block included and placeholders
+ * replaced by dummy values, then parsed with node-sql-parser's Athena
+ * grammar. Tables must be entity or join tables (or CTEs and subqueries),
+ * columns must exist in the tables in scope, and queries returning a
+ * @task_response type must select its fields. The grammar doesn't cover all
+ * of Athena's SQL, so queries it can't parse are reported as warnings and
+ * left unchecked.
+ */
+
+interface GlueTable {
+  name: string;
+  columns: string[];
+}
+
+function hasColumn(table: GlueTable, column: string): boolean {
+  return table.columns.some(
+    (name) => name.toLowerCase() === column.toLowerCase()
+  );
+}
+
+interface QueryScope {
+  // Tables by alias or name (lowercase); null for CTEs, subqueries and UNNEST
+  tables: Map<string, GlueTable | null>;
+  // Select list aliases, which ORDER BY and GROUP BY may reference
+  outputs: Set<string>;
+  parent?: QueryScope;
+}
+
+/**
+ * Node of a node-sql-parser AST
+ * The parser's types don't cover every shape its Athena grammar produces
+ * (e.g. UNNEST in FROM or WITH statements without an ast wrapper), so nodes
+ * are read as records and narrowed field by field
+ */
+type AstNode = Record<string, unknown>;
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getAstNodes(value: unknown): AstNode[] {
+  return Array.isArray(value) ? value.filter(isAstNode) : [];
+}
+
+// Stands in for $args.x spliced into a "..." identifier, which can't be resolved
+const DYNAMIC_IDENTIFIER = "ocg_dynamic_identifier";
+
+const parser = new Parser();
+
+/**
+ * Glue tables by lowercase name
+ * Hive tables also expose their partition keys as columns
+ */
+function getGlueTables(
+  schemaMetadata: SchemaMetadata,
+  tableFormat: TableFormat
+): Map<string, GlueTable> {
+  const tables = new Map<string, GlueTable>();
+  const addTable = (name: string, columns: string[]) =>
+    tables.set(name.toLowerCase(), {
+      name: name.toLowerCase(),
+      columns: [...new Set(columns)],
+    });
+
+  for (const type of schemaMetadata.types) {
+    if (type.isPrimitive || type.isTaskResponse) {
+      continue;
+    }
+    const layout = getPartitionLayout(type);
+    addTable(type.name, [
+      ...getEntityTableColumns(type).map((column) => column.name),
+      ...(tableFormat === "hive" ? layout.keys : []),
+    ]);
+  }
+  for (const joinTable of schemaMetadata.joinTables) {
+    addTable(joinTable, [
+      ...getJoinTableColumns(joinTable, schemaMetadata).map(
+        (column) => column.name
+      ),
+      ...(tableFormat === "hive" ? getPartitionLayout().keys : []),
+    ]);
+  }
+  return tables;
+}
+
+/**
+ * Template text with every {{#if}} block included and dummy placeholder values
+ */
+function renderForParsing(nodes: SqlTemplateNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") {
+        return node.value;
+      }
+      if (node.type === "if") {
+        return renderForParsing(node.children);
+      }
+      if (node.mode === "identifier") {
+        return DYNAMIC_IDENTIFIER;
+      }
+      return node.inClause === "bare" ? "(0)" : "0";
+    })
+    .join("");
+}
+
+/**
+ * SQL the parser can read: $join_table(x) becomes x and the column types of
+ * join table INSERTs, e.g. (userId:User, postId:Post), are dropped
+ */
+function toParsableSql(query: string): string {
+  return renderForParsing(compileSqlTemplate(query))
+    .replace(
+      /(INSERT\s+INTO\s+\$join_table\([^)]*\)\s*\()([^)]*)\)/i,
+      (_match, prefix: string, columns: string) =>
+        `${prefix}${columns.replace(/\s*:\s*\w+/g, "")})`
+    )
+    .replace(/\$join_table\(\s*(\w+)\s*\)/gi, "$1");
+}
+
+function parseStatements(query: string): AstNode[] {
+  const sql = toParsableSql(query);
+  try {
+    const ast = parser.astify(sql, { database: "athena" });
+    const statements: unknown[] = Array.isArray(ast) ? ast : [ast];
+    return statements.filter(isAstNode);
+  } catch (error) {
+    // The grammar lists every token it expected; the position says more
+    const start =
+      isAstNode(error) && isAstNode(error.location)
+        ? error.location.start
+        : undefined;
+    const offset = isAstNode(start) ? start.offset : undefined;
+    if (typeof offset !== "number") {
+      throw error;
+    }
+    throw new Error(
+      `syntax not supported near "${sql.slice(offset, offset + 30).trim()}"`
+    );
+  }
+}
+
+function getColumnName(reference: AstNode): string | undefined {
+  const column = reference.column;
+  if (typeof column === "string") {
+    return column;
+  }
+  return isAstNode(column) &&
+    isAstNode(column.expr) &&
+    typeof column.expr.value === "string"
+    ? column.expr.value
+    : undefined;
+}
+
+class SqlQueryChecker {
+  constructor(
+    private readonly tables: Map<string, GlueTable>,
+    private readonly location: string
+  ) {}
+
+  private fail(message: string): never {
+    throw new Error(`Invalid @sql_query on ${this.location}: ${message}`);
+  }
+
+  checkStatement(
+    statement: unknown,
+    parent: QueryScope | undefined,
+    ctes: Set<string>
+  ): void {
+    if (!isAstNode(statement)) {
+      return;
+    }
+
+    switch (statement.type) {
+      case "select":
+        this.checkSelect(statement, parent, ctes);
+        break;
+      case "delete": {
+        // DELETE ufp FROM ...: the target is one of the FROM tables
+        const scope = this.createScope(statement.from, parent, ctes);
+        this.checkExpression(statement.where, scope, ctes);
+        break;
+      }
+      case "insert": {
+        const [target] = getAstNodes(statement.table);
+        const table =
+          typeof target?.table === "string"
+            ? this.resolveTable(target.table, ctes)
+            : null;
+        const columns: unknown[] = Array.isArray(statement.columns)
+          ? statement.columns
+          : [];
+        for (const column of columns) {
+          const name =
+            typeof column === "string"
+              ? column
+              : isAstNode(column)
+                ? getColumnName(column)
+                : undefined;
+          if (table && name && !hasColumn(table, name)) {
+            this.fail(`column '${name}' does not exist in ${table.name}`);
+          }
+        }
+        this.checkExpression(
+          statement.values,
+          { tables: new Map(), outputs: new Set(), parent },
+          ctes
+        );
+        break;
+      }
+    }
+  }
+
+  private checkSelect(
+    select: AstNode,
+    parent: QueryScope | undefined,
+    outerCtes: Set<string>
+  ): void {
+    const ctes = new Set(outerCtes);
+    for (const cte of getAstNodes(select.with)) {
+      const statement =
+        isAstNode(cte.stmt) && cte.stmt.ast ? cte.stmt.ast : cte.stmt;
+      this.checkStatement(statement, parent, ctes);
+      const name = isAstNode(cte.name) ? cte.name.value : cte.name;
+      ctes.add(String(name).toLowerCase());
+    }
+
+    const scope = this.createScope(select.from, parent, ctes);
+    for (const column of getAstNodes(select.columns)) {
+      if (typeof column.as === "string") {
+        scope.outputs.add(column.as.toLowerCase());
+      }
+    }
+
+    for (const key of [
+      "columns",
+      "where",
+      "groupby",
+      "having",
+      "orderby",
+      "window",
+      "qualify",
+    ]) {
+      this.checkExpression(select[key], scope, ctes);
+    }
+
+    // UNION / INTERSECT / EXCEPT branches
+    if (select._next) {
+      this.checkStatement(select._next, parent, outerCtes);
+    }
+  }
+
+  private createScope(
+    from: unknown,
+    parent: QueryScope | undefined,
+    ctes: Set<string>
+  ): QueryScope {
+    const scope: QueryScope = { tables: new Map(), outputs: new Set(), parent };
+
+    for (const item of getAstNodes(from)) {
+      if (typeof item.table === "string") {
+        const alias = typeof item.as === "string" ? item.as : item.table;
+        scope.tables.set(
+          alias.toLowerCase(),
+          this.resolveTable(item.table, ctes)
+        );
+      } else if (isAstNode(item.expr) && item.expr.ast) {
+        this.checkStatement(item.expr.ast, parent, ctes);
+        scope.tables.set(String(item.as || "").toLowerCase(), null);
+      } else {
+        // UNNEST(...) AS t(x) and table functions: columns can't be resolved
+        this.checkExpression(item.expr, scope, ctes);
+        const [functionName] =
+          isAstNode(item.as) && isAstNode(item.as.name)
+            ? getAstNodes(item.as.name.name)
+            : [];
+        const alias =
+          typeof item.as === "string" ? item.as : functionName?.value || "";
+        scope.tables.set(String(alias).toLowerCase(), null);
+      }
+      this.checkExpression(item.on, scope, ctes);
+    }
+
+    return scope;
+  }
+
+  private resolveTable(name: string, ctes: Set<string>): GlueTable | null {
+    const key = name.toLowerCase();
+    if (ctes.has(key) || key === DYNAMIC_IDENTIFIER) {
+      return null;
+    }
+    const table = this.tables.get(key);
+    if (!table) {
+      this.fail(
+        `table '${name}' does not exist. Use an entity type or a $join_table() name: ${[...this.tables.keys()].join(", ")}`
+      );
+    }
+    return table;
+  }
+
+  private checkExpression(
+    node: unknown,
+    scope: QueryScope,
+    ctes: Set<string>
+  ): void {
+    if (Array.isArray(node)) {
+      for (const child of node as unknown[]) {
+        this.checkExpression(child, scope, ctes);
+      }
+      return;
+    }
+    if (!isAstNode(node)) {
+      return;
+    }
+
+    if (node.type === "column_ref") {
+      this.checkColumn(node, scope);
+      return;
+    }
+    // Subqueries, e.g. IN (SELECT ...) or EXISTS (SELECT ...)
+    if (isAstNode(node.ast)) {
+      this.checkStatement(node.ast, scope, ctes);
+      return;
+    }
+    if (node.type === "select") {
+      this.checkStatement(node, scope, ctes);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== "tableList" && key !== "columnList" && key !== "loc") {
+        this.checkExpression(value, scope, ctes);
+      }
+    }
+  }
+
+  private checkColumn(reference: AstNode, scope: QueryScope): void {
+    const column = getColumnName(reference);
+    if (!column || column === "*" || column === DYNAMIC_IDENTIFIER) {
+      return;
+    }
+    const key = column.toLowerCase();
+
+    if (typeof reference.table === "string") {
+      const qualifier = reference.table.toLowerCase();
+      for (let current: QueryScope | undefined = scope; current; ) {
+        if (current.tables.has(qualifier)) {
+          const table = current.tables.get(qualifier);
+          if (table && !hasColumn(table, column)) {
+            this.fail(
+              `column '${reference.table}.${column}' does not exist in ${table.name}. Columns: ${table.columns.join(", ")}`
+            );
+          }
+          return;
+        }
+        current = current.parent;
+      }
+      this.fail(
+        `'${reference.table}' in '${reference.table}.${column}' is not a table or alias of the query`
+      );
+    }
+
+    const inScope: string[] = [];
+    for (let current: QueryScope | undefined = scope; current; ) {
+      if (current.outputs.has(key)) {
+        return;
+      }
+      for (const table of current.tables.values()) {
+        if (!table || hasColumn(table, column)) {
+          return;
+        }
+        inScope.push(table.name);
+      }
+      current = current.parent;
+    }
+    this.fail(`column '${column}' does not exist in ${inScope.join(", ")}`);
+  }
+}
+
+/**
+ * Check the columns a query returning a @task_response type selects
+ * Results map to fields by (case-insensitive) column name
+ */
+function checkTaskResponseColumns(
+  statement: AstNode,
+  responseType: TypeMetadata,
+  location: string
+): void {
+  const fields = new Map(
+    responseType.fields.map((field) => [field.name.toLowerCase(), field])
+  );
+  const selected = new Set<string>();
+  let selectsAll = false;
+
+  for (const column of Array.isArray(statement.columns)
+    ? getAstNodes(statement.columns)
+    : [{ expr: { type: "column_ref", column: "*" } }]) {
+    const name =
+      typeof column.as === "string"
+        ? column.as
+        : isAstNode(column.expr) && column.expr.type === "column_ref"
+          ? getColumnName(column.expr)
+          : undefined;
+    if (name === "*") {
+      selectsAll = true;
+      continue;
+    }
+    if (!name) {
+      throw new Error(
+        `Invalid @sql_query on ${location}: every selected expression needs an alias naming a field of ${responseType.name}, e.g. COUNT(*) AS total`
+      );
+    }
+    if (!fields.has(name.toLowerCase())) {
+      throw new Error(
+        `Invalid @sql_query on ${location}: selected column '${name}' is not a field of ${responseType.name}`
+      );
+    }
+    selected.add(name.toLowerCase());
+  }
+
+  if (selectsAll) {
+    return;
+  }
+  for (const field of responseType.fields) {
+    if (field.isRequired && !selected.has(field.name.toLowerCase())) {
+      throw new Error(
+        `Invalid @sql_query on ${location}: non-null field ${responseType.name}.${field.name} is not selected`
+      );
+    }
+  }
+}
+
+function getSqlQueryFields(
+  schemaMetadata: SchemaMetadata
+): { location: string; field: FieldMetadata }[] {
+  return [
+    ...schemaMetadata.queries.map((field) => ({
+      location: `Query.${field.name}`,
+      field,
+    })),
+    ...schemaMetadata.mutations.map((field) => ({
+      location: `Mutation.${field.name}`,
+      field,
+    })),
+  ].filter(({ field }) => field.sqlQuery?.query);
+}
+
+/**
+ * Resolve the arguments, tables and columns of every @sql_query
+ * Throws on the first reference that doesn't exist
+ */
+export function validateSqlQueryReferences(
+  schemaMetadata: SchemaMetadata,
+  tableFormat: TableFormat = "hive"
+): void {
+  const tables = getGlueTables(schemaMetadata, tableFormat);
+
+  for (const { location, field } of getSqlQueryFields(schemaMetadata)) {
+    const query = field.sqlQuery!.query;
+
+    const argNames = (field.arguments || []).map((arg) => arg.name);
+    for (const param of getSqlTemplateParams(compileSqlTemplate(query))) {
+      if (param.source === "args" && !argNames.includes(param.name)) {
+        throw new Error(
+          `Invalid @sql_query on ${location}: $args.${param.name} is not an argument of the field`
+        );
+      }
+    }
+
+    let statements: AstNode[];
+    try {
+      statements = parseStatements(query);
+    } catch (error) {
+      // Reported by getUnparsableSqlQueries
+      continue;
+    }
+
+    const checker = new SqlQueryChecker(tables, location);
+    for (const statement of statements) {
+      checker.checkStatement(statement, undefined, new Set());
+    }
+
+    const responseType = schemaMetadata.types.find(
+      (type) => type.name === field.type && type.isTaskResponse
+    );
+    if (responseType && statements[0]?.type === "select") {
+      checkTaskResponseColumns(statements[0], responseType, location);
+    }
+  }
+}
+
+/**
+ * Queries the SQL grammar can't parse, whose references are not checked
+ */
+export function getUnparsableSqlQueries(
+  schemaMetadata: SchemaMetadata
+): string[] {
+  const warnings: string[] = [];
+  for (const { location, field } of getSqlQueryFields(schemaMetadata)) {
+    try {
+      parseStatements(field.sqlQuery!.query);
+    } catch (error) {
+      warnings.push(
+        `@sql_query on ${location} could not be parsed, so its tables and columns are not checked: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+  return warnings;
+}